@@ -171,8 +171,9 @@ export const marker = {
    * handle and must call remove() themselves.
    *
    * `options` lets the caller override individual appearance properties
-   * (color, pixelSize, outlineColor, outlineWidth) for this one marker;
-   * anything left unset falls back to `kind`'s default look.
+   * (color, pixelSize, outlineColor, outlineWidth) for this one marker,
+   * or add the `verified` badge; anything left unset falls back to
+   * `kind`'s default look.
    */
   place(coords: Coordinates, kind: MarkerKind = 'point', options?: MarkerOptions): MarkerPreview {
     return placeMarker(requireViewer(), coords, kind, options);
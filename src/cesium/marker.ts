@@ -26,6 +26,8 @@ export const MARKER_COLORS: Record<MarkerKind, Cesium.Color> = {
 export interface MarkerHandle {
   /** Remove this marker from the globe. */
   remove(): void;
+  /** Whether an entity from the entity picker (pickEntity.ts) is this marker. */
+  is(entity: Cesium.Entity | null): boolean;
 }
 
 /**
@@ -39,8 +41,16 @@ export interface MarkerOptions {
   pixelSize?: number;
   outlineColor?: Cesium.Color;
   outlineWidth?: number;
+  /**
+   * Show a verified badge (a green check above the pin) — for listings
+   * whose author's NIP-05 identifier checked out.
+   */
+  verified?: boolean;
 }
 
+/** Badge look for `verified` markers. */
+const VERIFIED_BADGE_COLOR = Cesium.Color.fromCssColorString('#57e389');
+
 /** Place a single pin at the given coordinates. Caller owns the returned handle and must call remove() themselves. */
 export function placeMarker(
   viewer: Cesium.Viewer,
@@ -56,12 +66,28 @@ export function placeMarker(
       outlineColor: options?.outlineColor ?? Cesium.Color.BLACK,
       outlineWidth: options?.outlineWidth ?? 1,
       heightReference: Cesium.HeightReference.CLAMP_TO_GROUND
-    }
+    },
+    label: options?.verified
+      ? {
+          text: '✔',
+          font: 'bold 14px sans-serif',
+          fillColor: VERIFIED_BADGE_COLOR,
+          outlineColor: Cesium.Color.BLACK,
+          outlineWidth: 2,
+          style: Cesium.LabelStyle.FILL_AND_OUTLINE,
+          verticalOrigin: Cesium.VerticalOrigin.BOTTOM,
+          pixelOffset: new Cesium.Cartesian2(0, -((options.pixelSize ?? 10) / 2 + 2)),
+          heightReference: Cesium.HeightReference.CLAMP_TO_GROUND
+        }
+      : undefined
   });
 
   return {
     remove(): void {
       viewer.entities.remove(entity);
+    },
+    is(picked: Cesium.Entity | null): boolean {
+      return picked === entity;
     }
   };
 }
\ No newline at end of file
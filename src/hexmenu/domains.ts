@@ -690,4 +690,46 @@ export const FORM_STEP_LABELS = {
   location: 'LOCATION',
   details: 'DETAILS',
   anypay: 'ANYPAY',
-} as const;
\ No newline at end of file
+} as const;
+
+// ─── ACCOUNT ───
+// Hexagons about the user rather than a listing flow. They share row 1
+// with the modes' own buttons, so they only show while no mode is
+// selected (row 0 is already as wide as MIN_COLS_VISIBLE allows).
+// `opens` names the modal the hex opens; HexMenu checks that, never
+// the hex id. 'identities' (the account switcher) belongs to the parent,
+// which owns the identity manager: HexMenu dispatches
+// IDENTITIES_OPEN_EVENT for it.
+export interface AccountNodeConfig {
+  id: string;
+  label: string;
+  opens: 'profile' | 'identities';
+}
+
+export const ACCOUNT_NODES: AccountNodeConfig[] = [
+  { id: 'profile', label: 'PROFILE', opens: 'profile' },
+  { id: 'identities', label: 'ACCOUNTS', opens: 'identities' },
+];
+
+// Languages offered in the profile editor (BCP-47 codes, stored as the
+// kind-0 profile's `languages`). Not exhaustive — just the pickable set.
+export const PROFILE_LANGUAGE_OPTIONS: { id: string; name: string }[] = [
+  { id: 'en', name: 'English' },
+  { id: 'es', name: 'Español' },
+  { id: 'pt', name: 'Português' },
+  { id: 'fr', name: 'Français' },
+  { id: 'de', name: 'Deutsch' },
+  { id: 'it', name: 'Italiano' },
+  { id: 'ru', name: 'Русский' },
+  { id: 'ar', name: 'العربية' },
+  { id: 'hi', name: 'हिन्दी' },
+  { id: 'sw', name: 'Kiswahili' },
+  { id: 'zh', name: '中文' },
+  { id: 'ja', name: '日本語' },
+];
+
+// Event name HexMenu dispatches when the profile editor is saved.
+export const PROFILE_SAVE_EVENT = 'profileSave';
+
+// Event name HexMenu dispatches when the ACCOUNTS hex is picked.
+export const IDENTITIES_OPEN_EVENT = 'identitiesOpen';
@@ -12,9 +12,9 @@
  *
  * It exposes only reusable IndexedDB plumbing: open a database, define
  * object stores declaratively, and perform get/set/delete/getAll/
- * getAllKeys/clear/has plus raw transactions. Callers supply the schema
- * (store names, key paths, indexes) and the values to store; this module
- * does not interpret either.
+ * getAllFromIndex/getAllKeys/count/clear/has plus raw transactions. Callers
+ * supply the schema (store names, key paths, indexes) and the values to
+ * store; this module does not interpret either.
  *
  * Higher-level modules (e.g. a future `nostr.ts`, `store.ts`, or an
  * orchestrating `Nostr.svelte`) are responsible for deciding what gets
@@ -270,6 +270,20 @@ export class IdbDatabase {
     return result;
   }
 
+  /**
+   * Returns all values in `storeName` whose `indexName` index matches,
+   * optionally bounded by a key range (on the index key) and/or count.
+   */
+  async getAllFromIndex<T>(storeName: string, indexName: string, options?: IdbRangeOptions): Promise<T[]> {
+    this.assertOpen();
+    const tx = this.db.transaction(storeName, 'readonly');
+    const index = tx.objectStore(storeName).index(indexName);
+    const request = index.getAll(options?.query, options?.count) as IDBRequest<T[]>;
+    const result = await requestToPromise(request, `getAllFromIndex() on "${storeName}.${indexName}"`);
+    await transactionDone(tx, `getAllFromIndex() on "${storeName}.${indexName}"`);
+    return result;
+  }
+
   /** Returns all keys in `storeName`, optionally bounded by a key range and/or count. */
   async getAllKeys(storeName: string, options?: IdbRangeOptions): Promise<IdbKey[]> {
     this.assertOpen();
@@ -281,6 +295,16 @@ export class IdbDatabase {
     return result;
   }
 
+  /** Counts the records in `storeName`, optionally only those within a key range. */
+  async count(storeName: string, query?: IDBValidKey | IDBKeyRange): Promise<number> {
+    this.assertOpen();
+    const tx = this.db.transaction(storeName, 'readonly');
+    const store = tx.objectStore(storeName);
+    const result = await requestToPromise(store.count(query), `count() on "${storeName}"`);
+    await transactionDone(tx, `count() on "${storeName}"`);
+    return result;
+  }
+
   /** Removes every record from `storeName`. */
   async clear(storeName: string): Promise<void> {
     this.assertOpen();
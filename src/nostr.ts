@@ -31,16 +31,78 @@
  */
 
 import {
-    finalizeEvent,
     generateSecretKey,
+    getEventHash,
     getPublicKey,
     verifyEvent as verifyNostrEvent,
     type EventTemplate,
     type Event as NostrEvent,
   } from 'nostr-tools/pure';
-  import { v2 as nip44 } from 'nostr-tools/nip44';
+  import { makeAuthEvent } from 'nostr-tools/nip42';
+  import { createSecretKeySigner, type Signer } from './nostr/signer';
+  import { createNegentropySession, type NegentropySession } from './nostr/negentropy';
+  import { createRumor, GIFT_WRAP_JITTER_SECS, GIFT_WRAP_KIND, unwrapGiftWrap, wrapRumor, type Rumor } from './nostr/giftWrap';
+  import { getPowDifficulty, mineEvent, type MineOptions } from './nostr/pow';
+  import { encodeAddress, encodeEvent, encodeProfile, shortNpub } from './nostr/nip19';
+  import { createRelayHealthTracker, type RelayHealthTracker, type RelayStats } from './nostr/relayHealth';
+  import { readonlyStore, type ReadableStore } from './store';
   
   export type { NostrEvent, EventTemplate };
+  export {
+    createSecretKeySigner,
+    createNip07Signer,
+    createNip46Signer,
+    hasNip07Provider,
+    parseBunkerUri,
+    SignerError,
+    type Signer,
+    type SignerTransport,
+    type SecretKeySigner,
+    type Nip07Provider,
+    type BunkerPointer,
+    type Nip46Signer,
+    type Nip46SignerOptions,
+  } from './nostr/signer';
+  export type { RelayStats } from './nostr/relayHealth';
+  export { getPowDifficulty, MAX_POW_DIFFICULTY, PowError } from './nostr/pow';
+  export {
+    npubEncode,
+    nsecEncode,
+    noteEncode,
+    encodeProfile,
+    encodeEvent,
+    encodeAddress,
+    decodeEntity,
+    parsePubkey,
+    shortNpub,
+    type DecodedEntity,
+    type AddressPointer,
+    type EventPointer,
+    type ProfilePointer,
+  } from './nostr/nip19';
+  export {
+    createNip05Verifier,
+    defaultNip05Fetcher,
+    formatNip05,
+    parseNip05,
+    resolveNip05,
+    Nip05Error,
+    type Nip05Fetcher,
+    type Nip05Pointer,
+    type Nip05Status,
+    type Nip05Verification,
+    type Nip05Verifier,
+    type Nip05VerifierOptions,
+  } from './nostr/nip05';
+  export {
+    createRumor,
+    wrapRumor,
+    unwrapGiftWrap,
+    GIFT_WRAP_KIND,
+    SEAL_KIND,
+    PRIVATE_MESSAGE_KIND,
+    type Rumor,
+  } from './nostr/giftWrap';
   
   // ═══════════════════════════════════════════════════════════════════════
   // Constants
@@ -81,9 +143,40 @@ import {
    */
   export const DEFAULT_ENCRYPTED_KIND = 14;
   
+  /** NIP-17 preferred DM relays: a replaceable list of `relay` tags. */
+  export const DM_RELAY_LIST_KIND = 10050;
+  
+  /** NIP-65 relay list metadata kind (a plain replaceable event). */
+  export const RELAY_LIST_KIND = 10002;
+  
+  /** NIP-01 user metadata: a replaceable event whose content is a JSON profile. */
+  export const PROFILE_KIND = 0;
+  
   const RECONNECT_BASE_MS = 1000;
   const RECONNECT_MAX_MS = 30000;
   const MAX_SEEN_IDS = 10000;
+  const PUBLISH_ACK_TIMEOUT_MS = 10000;
+  const POW_TIMEOUT_MS = 60000;
+  const AUTH_TIMEOUT_MS = 10000;
+  const RELAY_LIST_TTL_MS = 60 * 60 * 1000;
+  const OUTBOX_RELAYS_PER_AUTHOR = 3;
+  const MAX_OUTBOX_RELAYS = 30;
+  /** WebSocket readyState OPEN — the same value in browsers and the `ws` package. */
+  const SOCKET_OPEN = 1;
+  const RELAY_INFO_TTL_MS = 60 * 60 * 1000;
+  const RELAY_INFO_TIMEOUT_MS = 5000;
+  const DEFAULT_MAX_SUBSCRIPTIONS_PER_RELAY = 20;
+  const DEFAULT_MAX_REPLAY_EVENTS = 500;
+  /** setTimeout's ceiling (~24.8 days); longer waits are re-armed in steps. */
+  const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+  /** Filters packed into one coalesced REQ at most. */
+  const MAX_FILTERS_PER_REQ = 10;
+  /** Longer `ids`/`authors` lists are split across several REQs. */
+  const MAX_FILTER_VALUES = 500;
+  /** How long a relay not yet known to speak NIP-77 gets to answer NEG-OPEN. */
+  const NEGENTROPY_PROBE_TIMEOUT_MS = 5000;
+  /** Missing ids are fetched with REQ {ids} in chunks of this size. */
+  const NEGENTROPY_FETCH_CHUNK = 500;
   
   // ═══════════════════════════════════════════════════════════════════════
   // Generic protocol types
@@ -108,11 +201,102 @@ import {
   
   export type RelaySyncStatus = 'synced' | 'partial' | 'failed';
   
+  /**
+   * What a relay is used for: 'read' relays receive our REQs, 'write'
+   * relays receive our EVENTs, 'both' (the default) receive both.
+   */
+  export type RelayRole = 'read' | 'write' | 'both';
+  
+  /** One entry of the client's relay list, as reported by getRelayList(). */
+  export interface RelayListEntry {
+    url: string;
+    role: RelayRole;
+  }
+  
+  /**
+   * Another user's NIP-65 relay list: where they publish (`write`) and
+   * where they want to be reached (`read`). `createdAt` is 0 when the
+   * author was looked up but has no list.
+   */
+  export interface AuthorRelayList {
+    pubkey: string;
+    read: string[];
+    write: string[];
+    createdAt: number;
+  }
+  
+  /**
+   * A kind-0 profile's JSON content. Field names are the NIP-01/NIP-24
+   * ones; `languages` (BCP-47 codes the user speaks) is this app's own.
+   * Unknown fields are kept so republishing doesn't drop what other
+   * clients wrote.
+   */
+  export interface ProfileMetadata {
+    name?: string;
+    display_name?: string;
+    picture?: string;
+    about?: string;
+    languages?: string[];
+    nip05?: string;
+    website?: string;
+    [field: string]: unknown;
+  }
+  
+  /**
+   * The parts of a relay's NIP-11 information document the client knows
+   * about (field names as in the spec). Relays may omit any of them.
+   */
+  export interface RelayInfo {
+    name?: string;
+    description?: string;
+    icon?: string;
+    pubkey?: string;
+    contact?: string;
+    software?: string;
+    version?: string;
+    supported_nips?: number[];
+    limitation?: {
+      max_message_length?: number;
+      max_subscriptions?: number;
+      max_filters?: number;
+      max_limit?: number;
+      max_event_tags?: number;
+      max_content_length?: number;
+      min_pow_difficulty?: number;
+      auth_required?: boolean;
+      payment_required?: boolean;
+      restricted_writes?: boolean;
+    };
+  }
+  
+  export type PrivateMessageMode = 'nip17' | 'direct';
+  
+  /** Per-relay connection and NIP-42 authentication state, reported through onRelayStatus(). */
+  export type RelayStatus =
+    | 'connecting'
+    | 'connected'
+    | 'disconnected'
+    | 'auth-required'
+    | 'authenticating'
+    | 'authenticated'
+    | 'auth-failed';
+  
+  /**
+   * Which relays may receive a signed NIP-42 AUTH event. Authenticating
+   * reveals our pubkey to the relay, so it is opt-in: 'never' (the
+   * default), 'always', or a per-relay predicate.
+   */
+  export type AuthPolicy = 'never' | 'always' | ((relayUrl: string) => boolean);
+  
   export interface RelayQueryMeta {
     connectedAtStart: number;
     eoseReceived: number;
     retriesUsed: number;
     timedOut: boolean;
+    /** Relays that ended the query with CLOSED instead of EOSE: relay URL -> reason. */
+    closed?: Record<string, string>;
+    /** How many of the returned events came from the local event store. */
+    cachedEvents?: number;
   }
   
   export interface RelayQueryResult {
@@ -133,6 +317,40 @@ import {
     event: NostrEvent;
     verified: boolean;
     outcome: RelayPublishOutcome;
+    /** Per-relay OK acknowledgements for the published event. */
+    acks: PublishAckMap;
+  }
+  
+  /**
+   * One relay's answer to an EVENT. `reason` is the relay's OK message
+   * verbatim; `prefix` is its NIP-01 machine-readable part (`duplicate`,
+   * `pow`, `blocked`, `rate-limited`, `invalid`, `restricted`,
+   * `auth-required`, `error`, ...) when the relay supplied one.
+   * `timeout` means the relay never answered within the ack window.
+   */
+  export interface RelayPublishAck {
+    status: 'accepted' | 'rejected' | 'timeout';
+    reason: string;
+    prefix?: string;
+  }
+  
+  /** Relay URL -> that relay's acknowledgement. */
+  export type PublishAckMap = Record<string, RelayPublishAck>;
+  
+  /**
+   * Returned by every publish call: the signed event right away, plus a
+   * promise that settles once every relay it was sent to has answered
+   * (or the ack window elapsed). Resolves with an empty map if no relay
+   * was connected at publish time.
+   */
+  export interface PublishResult {
+    event: NostrEvent;
+    acks: Promise<PublishAckMap>;
+  }
+  
+  /** publishDeletionMarker()'s result: the tombstone's, plus the NIP-09 request sent with it. */
+  export interface DeletionMarkerResult extends PublishResult {
+    deletionRequest: PublishResult;
   }
   
   /** A handle returned by subscribe(), for ergonomic update/close without re-passing the id. */
@@ -142,14 +360,174 @@ import {
     close: () => void;
   }
   
+  /**
+   * Extra, less common subscribe() behaviour. With `resolveReplaceable`,
+   * replaceable and parameterized-replaceable events are resolved
+   * latest-wins per address (see createReplaceableResolver): onEvent gets
+   * only events that become current, a newer version of something already
+   * delivered goes to onReplace (or onEvent if onReplace isn't given), and
+   * a version retired by a tombstone or a NIP-09 deletion request from
+   * its author goes to onRemove. Tombstones and deletion requests
+   * themselves are never passed to onEvent; the filter has to match
+   * kind-5 events for deletion requests to be seen at all.
+   */
+  export interface SubscribeOptions {
+    /** Fires when a delivered event's NIP-40 expiration is reached. */
+    onExpire?: (event: NostrEvent) => void;
+    resolveReplaceable?: boolean;
+    onReplace?: (event: NostrEvent, previous: NostrEvent) => void;
+    onRemove?: (address: string, previous: NostrEvent, tombstone: NostrEvent) => void;
+    /**
+     * Minimum NIP-13 difficulty (see getPowDifficulty) for events from
+     * unknown authors; weaker ones are dropped on arrival. Our own events,
+     * the filter's `authors` and those isKnownAuthor() accepts are exempt.
+     */
+    minPow?: number;
+    isKnownAuthor?: (pubkey: string) => boolean;
+  }
+  
   interface StoredSubscription {
     id: string;
     filter: NostrFilter;
     onEvent: (event: NostrEvent) => void;
     onEose?: () => void;
     onEoseRelay?: (relayUrl: string) => void;
+    onClosed?: (relayUrl: string, reason: string) => void;
+    onExpire?: SubscribeOptions['onExpire'];
+    onReplace?: SubscribeOptions['onReplace'];
+    onRemove?: SubscribeOptions['onRemove'];
+    minPow?: number;
+    isKnownAuthor?: SubscribeOptions['isKnownAuthor'];
+    /** Pending onExpire timers, keyed by event id. Only present with onExpire. */
+    expiry?: ExpiryTracker;
+    /** Latest-wins state; only present with resolveReplaceable. */
+    resolver?: ReplaceableResolver;
+    /** The wire REQs carrying this subscription's filter; unset until it is planned. */
+    reqIds?: Set<string>;
+    /** Ids already delivered to this subscription (bounded, oldest evicted). */
+    seen?: Set<string>;
+    /** Outbox route: the only relays this REQ goes to. Undefined = every read relay. */
+    relays?: Set<string>;
+  }
+  
+  /**
+   * Durable delivery for published events (see nostr/outbox.ts for the
+   * IndexedDB-backed implementation). NostrClient hands every event it
+   * signs and publishes to track(), along with the acks of that first
+   * send and the relays it went to beyond our write relays (a recipient's
+   * inbox or DM relays); the outbox takes it from there.
+   */
+  export interface PublishOutbox {
+    track(event: NostrEvent, acks: Promise<PublishAckMap>, extraRelays?: string[]): void;
+    /** Called by NostrClient when the outbox is installed, so it can re-send. */
+    attach?(transport: OutboxTransport): void;
+    /** Called by NostrClient whenever a relay connection opens. */
+    relayConnected?(relayUrl: string): void;
+  }
+  
+  /**
+   * A local cache of events that can answer NIP-01 filters (see
+   * nostr/eventStore.ts for the IndexedDB-backed implementation). When
+   * configured, query() and subscribe() deliver matching cached events
+   * first, and every verified event the client sees is saved to it.
+   */
+  export interface LocalEventStore {
+    query(filter: NostrFilter): Promise<NostrEvent[]>;
+    save(event: NostrEvent): Promise<void>;
+  }
+  
+  /** One event in the publish replay buffer. */
+  export interface ReplayEntry {
+    /** Buffer key, e.g. `rep:${kind}:${d}`; a newer event under the same key replaces the older one. */
+    key: string;
+    event: NostrEvent;
+    /** Relays that accepted the event; it isn't replayed to them again. */
+    acceptedBy: string[];
+  }
+  
+  /**
+   * Persistence for the publish replay buffer (see nostr/replayStore.ts
+   * for the IndexedDB-backed implementation), so a reload still re-seeds
+   * relays that connect late. Loaded on connect(); every change to the
+   * buffer is written through.
+   */
+  export interface PublishReplayStore {
+    load(): Promise<ReplayEntry[]>;
+    put(entry: ReplayEntry): Promise<void>;
+    delete(key: string): Promise<void>;
+  }
+  
+  /** The slice of NostrClient an outbox needs to re-send events. */
+  export interface OutboxTransport {
+    publishSigned(event: NostrEvent, extraRelays?: string[]): PublishResult;
+    getConnectedRelayUrls(role?: 'read' | 'write'): string[];
+  }
+  
+  interface PendingPublish {
+    msg: string;
+    expected: Set<string>;
+    acks: PublishAckMap;
+    resolve: (acks: PublishAckMap) => void;
+    timer: ReturnType<typeof setTimeout>;
+  }
+  
+  interface PendingAuth {
+    relayUrl: string;
+    resolve: (ok: boolean) => void;
+    timer: ReturnType<typeof setTimeout>;
+  }
+  
+  /**
+   * One REQ on the wire. Subscriptions opened together with the same route
+   * share REQs (their filters side by side); events are fanned back out to
+   * every member whose own filter they match.
+   */
+  interface WireReq {
+    id: string;
+    filters: NostrFilter[];
+    /** Ids of the subscriptions whose filters this REQ carries. */
+    members: Set<string>;
+    /** Outbox route shared by every member. Undefined = every read relay. */
+    relays?: Set<string>;
+    /** Relays that have sent EOSE since the REQ was last sent to them. */
+    eose: Set<string>;
+    /** Relay URL -> unix ms the REQ was last sent there, for EOSE latency. */
+    sentAt: Map<string, number>;
+  }
+  
+  /** A NEG-OPEN awaiting the relay's NEG-MSG/NEG-ERR replies. */
+  interface PendingNegentropy {
+    relayUrl: string;
+    session: NegentropySession;
+    need: Set<string>;
+    /** Resolves with the ids to fetch, or null if the relay couldn't reconcile. */
+    resolve: (need: string[] | null) => void;
+    timer: ReturnType<typeof setTimeout>;
   }
   
+  /** Work a relay refused with `auth-required:`, replayed once we have authenticated to it. */
+  interface AuthDeferred {
+    reqIds: Set<string>;
+    events: Map<string, string>; // event id -> ["EVENT", ...] JSON
+  }
+  
+  /**
+   * The part of the WebSocket API NostrClient uses. Browser WebSockets and
+   * Node's `ws` package both satisfy it.
+   */
+  export interface RelaySocket {
+    readonly readyState: number;
+    send(data: string): void;
+    close(): void;
+    onopen: ((event: unknown) => void) | null;
+    onclose: ((event: unknown) => void) | null;
+    onerror: ((event: unknown) => void) | null;
+    onmessage: ((event: { data: unknown }) => void) | null;
+  }
+  
+  /** Opens a socket to a relay URL; see NostrClientOptions.webSocketFactory. */
+  export type WebSocketFactory = (url: string) => RelaySocket;
+  
   export interface WaitReadyOptions {
     /** Stop waiting early once this many relays are connected. */
     expectedRelays?: number;
@@ -171,6 +549,24 @@ import {
   
   export interface QueryOptions extends WaitReadyOptions {
     subIdPrefix?: string;
+    /** Per-call override of the client's outboxRouting setting. */
+    outbox?: boolean;
+    /** Set false to skip the local event store for this call (relays only). */
+    local?: boolean;
+    /**
+     * Reconcile the local event store's matches with NIP-77 negentropy and
+     * fetch only the missing events, on relays that support it (plain REQ
+     * elsewhere). Defaults to the client's `negentropy` option; ignored
+     * without an event store or when the filter has a `limit`.
+     */
+    negentropy?: boolean;
+    /**
+     * Return only the newest version per replaceable address, with
+     * tombstoned ones (and the tombstones) left out, as are events deleted
+     * by a NIP-09 request among the results. onEvent is likewise only
+     * called for events that are current when they arrive.
+     */
+    resolveReplaceable?: boolean;
     retries?: number;
     retryBackoffMs?: number;
     timeoutMs?: number;
@@ -183,7 +579,12 @@ import {
     kind: number;
     tags?: string[][];
     content?: string;
+    /** Mining with `pow` moves created_at forward as it goes. */
     createdAt?: number;
+    /** NIP-13 difficulty (leading zero bits) to mine before signing, in a Web Worker. */
+    pow?: number;
+    /** Aborts mining `pow`; the publish then rejects with PowError. */
+    powSignal?: AbortSignal;
   }
   
   export interface ReplaceableEventInput {
@@ -193,6 +594,10 @@ import {
     content: string;
     /** Overrides the client's default replaceable kind for this call. */
     kind?: number;
+    /** NIP-13 difficulty (leading zero bits) to mine before signing, in a Web Worker. */
+    pow?: number;
+    /** Aborts mining `pow`; the publish then rejects with PowError. */
+    powSignal?: AbortSignal;
   }
   
   export interface PublishWithVerifyOptions extends ReplaceableEventInput {
@@ -204,7 +609,7 @@ import {
   // Standalone key / crypto helpers (no relay state required)
   // ═══════════════════════════════════════════════════════════════════════
   
-  /** Generate a new Nostr keypair. Persistence, if any, is the caller's responsibility. */
+  /** Generate a new Nostr keypair. Persistence, if any, is the caller's responsibility (see nostr/keystore.ts). */
   export function generateKeypair(): { secretKey: Uint8Array; publicKey: string } {
     const secretKey = generateSecretKey();
     return { secretKey, publicKey: getPublicKey(secretKey) };
@@ -241,7 +646,8 @@ import {
    *
    * This is a generic replaceable-event-level mechanism — it recognizes and
    * produces tombstone markers, but has no notion of what a `d` tag
-   * identifies in any given application.
+   * identifies in any given application. Other clients don't know it, so
+   * publishDeletionMarker() also sends a NIP-09 deletion request.
    */
   export const DELETION_TAG_VALUE = 'DELETE';
   
@@ -262,6 +668,79 @@ import {
     return { dTag, author: event.pubkey };
   }
   
+  /** NIP-09 deletion request kind. */
+  export const DELETION_REQUEST_KIND = 5;
+  
+  /**
+   * If `event` is a NIP-09 deletion request, the event ids (`e` tags) and
+   * replaceable addresses (`a` tags, in getReplaceableAddress() form) it
+   * asks to delete. Addresses of another author's events are dropped; ids
+   * can only be checked once the target is at hand (see isDeletedBy).
+   */
+  export function getDeletionRequestTargets(
+    event: NostrEvent,
+  ): { ids: string[]; addresses: string[]; author: string } | null {
+    if (event.kind !== DELETION_REQUEST_KIND || !event.pubkey) return null;
+    const ids: string[] = [];
+    const addresses: string[] = [];
+    for (const tag of event.tags ?? []) {
+      if (tag[0] === 'e' && tag[1]) ids.push(tag[1]);
+      else if (tag[0] === 'a' && tag[1]?.split(':')[1] === event.pubkey) addresses.push(tag[1]);
+    }
+    return { ids, addresses, author: event.pubkey };
+  }
+  
+  /**
+   * True if deletion request `request` covers `event`: same author, and
+   * either `event` is named by id or its replaceable address is named and
+   * it isn't newer than the request (NIP-09).
+   */
+  export function isDeletedBy(event: NostrEvent, request: NostrEvent): boolean {
+    const targets = getDeletionRequestTargets(request);
+    if (!targets || event.pubkey !== targets.author || event.kind === DELETION_REQUEST_KIND) return false;
+    if (targets.ids.includes(event.id)) return true;
+    const address = getReplaceableAddress(event);
+    return address !== null && targets.addresses.includes(address) && event.created_at <= request.created_at;
+  }
+  
+  /**
+   * True if `event` satisfies a NIP-01 filter: ids, kinds, authors,
+   * since/until and every `#x` tag filter (each is an OR over its values;
+   * different fields AND together). `limit` doesn't apply to a single
+   * event, and `search` (NIP-50) is relay-side only, so both are ignored.
+   */
+  export function matchesFilter(event: NostrEvent, filter: NostrFilter): boolean {
+    if (filter.ids && !filter.ids.includes(event.id)) return false;
+    if (filter.kinds && !filter.kinds.includes(event.kind)) return false;
+    if (filter.authors && !filter.authors.includes(event.pubkey)) return false;
+    if (filter.since != null && event.created_at < filter.since) return false;
+    if (filter.until != null && event.created_at > filter.until) return false;
+  
+    for (const [key, values] of Object.entries(filter)) {
+      if (key[0] !== '#' || !Array.isArray(values)) continue;
+      const letter = key.slice(1);
+      const wanted = (values as (string | number)[]).map(String);
+      if (!event.tags?.some((t) => t[0] === letter && wanted.includes(t[1]))) return false;
+    }
+    return true;
+  }
+  
+  /**
+   * The NIP-01 address a replaceable event occupies — `kind:pubkey:` for
+   * replaceable kinds (0, 3, 10000-19999) and `kind:pubkey:d` for
+   * parameterized-replaceable ones (30000-39999). Null for any other kind.
+   * Two events with the same address supersede each other by created_at.
+   */
+  export function getReplaceableAddress(event: NostrEvent): string | null {
+    const { kind, pubkey } = event;
+    if (kind === 0 || kind === 3 || (kind >= 10000 && kind < 20000)) return `${kind}:${pubkey}:`;
+    if (kind >= 30000 && kind < 40000) {
+      const dTag = event.tags?.find((t) => t[0] === 'd')?.[1] ?? '';
+      return `${kind}:${pubkey}:${dTag}`;
+    }
+    return null;
+  }
+  
   /**
    * Build a generic NIP-01 filter from structured options, including
    * arbitrary indexable tag filters (any single-letter tag, e.g. d/t/g/p/e).
@@ -291,6 +770,54 @@ import {
     return filter;
   }
   
+  /** Canonical form of a relay URL so 'wss://x/' and 'wss://x' are the same relay. */
+  export function normalizeRelayUrl(url: string): string {
+    return url.trim().replace(/\/+$/, '');
+  }
+  
+  /**
+   * Parse a NIP-65 kind-10002 event's `r` tags into read/write relay
+   * lists. A tag without a marker means the relay is used for both.
+   */
+  export function parseRelayListEvent(event: NostrEvent): { read: string[]; write: string[] } {
+    const read: string[] = [];
+    const write: string[] = [];
+    for (const tag of event.tags ?? []) {
+      if (tag[0] !== 'r' || !tag[1]) continue;
+      const url = normalizeRelayUrl(tag[1]);
+      if (tag[2] !== 'write') read.push(url);
+      if (tag[2] !== 'read') write.push(url);
+    }
+    return { read, write };
+  }
+  
+  /**
+   * Parse a kind-0 event's content. Null when it isn't a JSON object;
+   * known string fields of the wrong type and non-string languages are
+   * dropped rather than failing the whole profile.
+   */
+  export function parseProfileEvent(event: NostrEvent): ProfileMetadata | null {
+    let content: unknown;
+    try {
+      content = JSON.parse(event.content);
+    } catch {
+      return null;
+    }
+    if (!content || typeof content !== 'object' || Array.isArray(content)) return null;
+  
+    const profile: ProfileMetadata = { ...(content as Record<string, unknown>) };
+    for (const field of ['name', 'display_name', 'picture', 'about', 'nip05', 'website'] as const) {
+      if (profile[field] != null && typeof profile[field] !== 'string') delete profile[field];
+    }
+    if (profile.languages != null) {
+      profile.languages = Array.isArray(profile.languages)
+        ? profile.languages.filter((lang): lang is string => typeof lang === 'string' && lang !== '')
+        : undefined;
+      if (!profile.languages?.length) delete profile.languages;
+    }
+    return profile;
+  }
+  
   // ═══════════════════════════════════════════════════════════════════════
   // Expiry tracker — generic NIP-40 local-timer bookkeeping
   // ═══════════════════════════════════════════════════════════════════════
@@ -318,14 +845,18 @@ import {
         const existing = timers.get(key);
         if (existing) clearTimeout(existing);
   
-        const delayMs = Math.max(0, expirationUnixSecs * 1000 - Date.now());
-        timers.set(
-          key,
-          setTimeout(() => {
-            timers.delete(key);
-            onExpire();
-          }, delayMs),
-        );
+        const arm = () => {
+          const delayMs = Math.max(0, expirationUnixSecs * 1000 - Date.now());
+          timers.set(
+            key,
+            setTimeout(() => {
+              if (delayMs > MAX_TIMER_DELAY_MS) return arm();
+              timers.delete(key);
+              onExpire();
+            }, Math.min(delayMs, MAX_TIMER_DELAY_MS)),
+          );
+        };
+        arm();
       },
       clear(key) {
         const existing = timers.get(key);
@@ -341,69 +872,487 @@ import {
     };
   }
   
+  // ═══════════════════════════════════════════════════════════════════════
+  // Replaceable resolver — generic latest-wins bookkeeping per address
+  // ═══════════════════════════════════════════════════════════════════════
+  
+  /** What adding one event did to the resolved set. */
+  export type ReplaceableChange =
+    | { type: 'add'; event: NostrEvent }
+    | { type: 'replace'; event: NostrEvent; previous: NostrEvent }
+    /** `tombstone` is the tombstone marker or NIP-09 deletion request that retired `previous`. */
+    | { type: 'remove'; address: string; previous: NostrEvent; tombstone: NostrEvent };
+  
+  /**
+   * Incrementally resolves replaceable (0, 3, 10000-19999) and
+   * parameterized-replaceable (30000-39999) events to their current
+   * version per getReplaceableAddress(): newest created_at wins, ties go
+   * to the lowest id (NIP-01). A tombstone (see getDeletionTarget)
+   * retires its author's older versions of that `d` tag at any kind, and
+   * keeps later-arriving older versions out. NIP-09 deletion requests
+   * (kind 5) do the same for the ids and addresses they name, following
+   * isDeletedBy(); they are consumed like tombstones, never reported as
+   * 'add'. Other non-replaceable events are reported as 'add' unless a
+   * deletion request seen earlier covers them.
+   */
+  export interface ReplaceableResolver {
+    /** Feed one event; returns what changed (empty if it was stale, deleted or a duplicate). */
+    add(event: NostrEvent): ReplaceableChange[];
+    /** Current live versions, newest first (tombstones excluded). */
+    current(): NostrEvent[];
+    /** True if a deletion request fed so far covers `event`. */
+    isDeleted(event: NostrEvent): boolean;
+  }
+  
+  export function createReplaceableResolver(): ReplaceableResolver {
+    const latest = new Map<string, NostrEvent>(); // address -> newest version (may be a tombstone)
+    const retiredUntil = new Map<string, number>(); // `${author}:${d}` -> newest tombstone created_at
+    const deletions = new Map<string, NostrEvent[]>(); // target id or address -> NIP-09 requests naming it
+  
+    const dTagOf = (event: NostrEvent) => event.tags?.find((t) => t[0] === 'd')?.[1] ?? '';
+    const isAddressable = (event: NostrEvent) => event.kind >= 30000 && event.kind < 40000;
+  
+    function deletionOf(event: NostrEvent): NostrEvent | undefined {
+      const requests = [...(deletions.get(event.id) ?? []), ...(deletions.get(getReplaceableAddress(event) ?? '') ?? [])];
+      return requests.find((request) => isDeletedBy(event, request));
+    }
+  
+    function applyDeletionRequest(request: NostrEvent): ReplaceableChange[] {
+      const targets = getDeletionRequestTargets(request);
+      for (const key of [...targets.ids, ...targets.addresses]) {
+        const requests = deletions.get(key) ?? [];
+        if (requests.some((r) => r.id === request.id)) return [];
+        requests.push(request);
+        deletions.set(key, requests);
+      }
+  
+      const changes: ReplaceableChange[] = [];
+      for (const [address, current] of latest) {
+        if (!isDeletionEvent(current) && isDeletedBy(current, request)) {
+          latest.delete(address);
+          changes.push({ type: 'remove', address, previous: current, tombstone: request });
+        }
+      }
+      return changes;
+    }
+  
+    return {
+      add(event) {
+        if (event.kind === DELETION_REQUEST_KIND) return applyDeletionRequest(event);
+        if (deletionOf(event)) return [];
+  
+        const address = getReplaceableAddress(event);
+        if (!address) return [{ type: 'add', event }];
+  
+        const current = latest.get(address);
+        if (
+          current &&
+          (current.created_at > event.created_at ||
+            (current.created_at === event.created_at && current.id <= event.id))
+        ) {
+          return [];
+        }
+  
+        const target = getDeletionTarget(event);
+        if (!target && isAddressable(event)) {
+          const retired = retiredUntil.get(`${event.pubkey}:${dTagOf(event)}`);
+          if (retired !== undefined && retired >= event.created_at) return [];
+        }
+  
+        latest.set(address, event);
+        const previous = current && !isDeletionEvent(current) ? current : undefined;
+        if (!target) {
+          return previous ? [{ type: 'replace', event, previous }] : [{ type: 'add', event }];
+        }
+  
+        const key = `${target.author}:${target.dTag}`;
+        retiredUntil.set(key, Math.max(retiredUntil.get(key) ?? 0, event.created_at));
+        const changes: ReplaceableChange[] = previous ? [{ type: 'remove', address, previous, tombstone: event }] : [];
+        for (const [otherAddress, other] of latest) {
+          if (
+            otherAddress !== address &&
+            isAddressable(other) &&
+            !isDeletionEvent(other) &&
+            other.pubkey === target.author &&
+            dTagOf(other) === target.dTag &&
+            other.created_at <= event.created_at
+          ) {
+            latest.delete(otherAddress);
+            changes.push({ type: 'remove', address: otherAddress, previous: other, tombstone: event });
+          }
+        }
+        return changes;
+      },
+      current() {
+        return [...latest.values()]
+          .filter((e) => !isDeletionEvent(e))
+          .sort((a, b) => b.created_at - a.created_at);
+      },
+      isDeleted(event) {
+        return deletionOf(event) !== undefined;
+      },
+    };
+  }
+  
+  /**
+   * One-shot latest-wins resolution of a batch of events (see
+   * createReplaceableResolver). Non-replaceable events pass through in
+   * their original order, followed by the current replaceable versions.
+   * Deletion requests are applied and left out, along with what they
+   * delete.
+   */
+  export function resolveReplaceable(events: NostrEvent[]): NostrEvent[] {
+    const resolver = createReplaceableResolver();
+    const passthrough: NostrEvent[] = [];
+    for (const event of events) {
+      if (getReplaceableAddress(event) || event.kind === DELETION_REQUEST_KIND) resolver.add(event);
+      else passthrough.push(event);
+    }
+    return [...passthrough.filter((e) => !resolver.isDeleted(e)), ...resolver.current()];
+  }
+  
+  /** `e`, `a` and (for the addresses' kinds) `k` tags of a NIP-09 deletion request. */
+  function deletionRequestTags(targets: { ids: string[]; addresses: string[] }): string[][] {
+    const kinds = new Set(targets.addresses.map((address) => address.split(':')[0]));
+    return [
+      ...targets.ids.map((id) => ['e', id]),
+      ...targets.addresses.map((address) => ['a', address]),
+      ...[...kinds].map((kind) => ['k', kind]),
+    ];
+  }
+  
+  // ═══════════════════════════════════════════════════════════════════════
+  // Publish replay buffer — events re-sent to relays that connect late
+  // ═══════════════════════════════════════════════════════════════════════
+  
+  /**
+   * Bounded, expiry-aware set of signed events to replay to write relays
+   * that connect after the event was published. An entry is dropped when
+   * its NIP-40 expiration passes, and the least recently set entries go
+   * once there are more than `maxEntries`. Each entry remembers which
+   * relays accepted it, so a reconnecting relay only gets what it lacks.
+   * Changes are written through to `persistence`, if given.
+   */
+  interface ReplayBuffer {
+    get(key: string): ReplayEntry | undefined;
+    set(key: string, event: NostrEvent): void;
+    delete(key: string): void;
+    /** Forget every entry, in memory only; persisted entries are kept. */
+    clear(): void;
+    /** Add persisted entries (keys set since win); returns the ones added. */
+    restore(entries: ReplayEntry[]): ReplayEntry[];
+    /** Live entries `relayUrl` hasn't accepted yet. */
+    pendingFor(relayUrl: string): ReplayEntry[];
+    /** Record that a relay accepted an event (by id). */
+    accepted(eventId: string, relayUrl: string): void;
+  }
+  
+  function createReplayBuffer(
+    maxEntries: number,
+    persistence: PublishReplayStore | null,
+    onPersistError: (err: unknown) => void,
+  ): ReplayBuffer {
+    const entries = new Map<string, ReplayEntry>(); // key -> entry, least recently set first
+    const keysById = new Map<string, string>(); // event id -> key
+    const expiry = createExpiryTracker();
+  
+    const persist = (entry: ReplayEntry) => void persistence?.put(entry).catch(onPersistError);
+  
+    function remove(key: string, persisted = true): void {
+      const entry = entries.get(key);
+      if (!entry) return;
+      entries.delete(key);
+      keysById.delete(entry.event.id);
+      expiry.clear(key);
+      if (persisted) void persistence?.delete(key).catch(onPersistError);
+    }
+  
+    /** Index an entry, schedule its expiry and enforce the size cap. False if already expired. */
+    function insert(entry: ReplayEntry): boolean {
+      const expiration = getExpiration(entry.event);
+      if (expiration !== undefined && expiration <= Math.floor(Date.now() / 1000)) return false;
+      entries.set(entry.key, entry);
+      keysById.set(entry.event.id, entry.key);
+      if (expiration !== undefined) expiry.set(entry.key, expiration, () => remove(entry.key));
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries) break;
+        remove(oldest);
+      }
+      return true;
+    }
+  
+    return {
+      get: (key) => entries.get(key),
+      set(key, event) {
+        remove(key, false);
+        const entry: ReplayEntry = { key, event, acceptedBy: [] };
+        if (insert(entry)) persist(entry);
+        else void persistence?.delete(key).catch(onPersistError);
+      },
+      delete: (key) => remove(key),
+      clear() {
+        for (const key of [...entries.keys()]) remove(key, false);
+      },
+      restore(persisted) {
+        const added: ReplayEntry[] = [];
+        for (const entry of persisted) {
+          if (entries.has(entry.key)) continue;
+          if (insert(entry)) added.push(entry);
+          else void persistence?.delete(entry.key).catch(onPersistError);
+        }
+        return added;
+      },
+      pendingFor(relayUrl) {
+        return [...entries.values()].filter((entry) => !entry.acceptedBy.includes(relayUrl));
+      },
+      accepted(eventId, relayUrl) {
+        const entry = entries.get(keysById.get(eventId) ?? '');
+        if (!entry || entry.acceptedBy.includes(relayUrl)) return;
+        entry.acceptedBy.push(relayUrl);
+        persist(entry);
+      },
+    };
+  }
+  
   // ═══════════════════════════════════════════════════════════════════════
   // NostrClient
   // ═══════════════════════════════════════════════════════════════════════
   
   export interface NostrClientOptions {
-    relays?: string[];
+    /** Initial relay list. Plain URLs get the 'both' role. Defaults to DEFAULT_RELAYS. */
+    relays?: (string | RelayListEntry)[];
     /** Default kind used by publishReplaceable() when not overridden per-call. */
     replaceableKind?: number;
     /** Default kind used by sendEncrypted()/subscribeEncrypted() when not overridden per-call. */
     encryptedKind?: number;
+    /**
+     * How sendEncrypted()/subscribeEncrypted() carry messages:
+     *   - 'nip17'  (default) NIP-59 gift wraps: sender, recipient tag and
+     *              real timestamp hidden inside a throwaway-key kind-1059
+     *   - 'direct' a signed encryptedKind event with a visible `p` tag,
+     *              as before
+     */
+    privateMessages?: PrivateMessageMode;
     /** Optional hook for structured logging; defaults to a no-op. */
     onLog?: (level: 'info' | 'warn', message: string) => void;
+    /** Called with every NOTICE a relay sends. NOTICEs are also logged as warnings. */
+    onNotice?: (relayUrl: string, message: string) => void;
+    /** How long publish acks wait for a relay's OK before marking it `timeout`. */
+    publishAckTimeoutMs?: number;
+    /** How long mining a publish's `pow` may take before it fails with PowError. Defaults to 60s. */
+    powTimeoutMs?: number;
+    /** Which relays we answer NIP-42 AUTH challenges for. Defaults to 'never'. */
+    authPolicy?: AuthPolicy;
+    /**
+     * Called after every addRelay/removeRelay/setRelayRole with the full
+     * relay list — the hook for persisting the user's choice (see
+     * openRelayListStore()).
+     */
+    onRelayListChange?: (relays: RelayListEntry[]) => void;
+    /**
+     * NIP-65 outbox model: route subscriptions/queries with an `authors`
+     * filter to those authors' write relays, and encrypted events to the
+     * recipient's read relays, instead of only our own relays. Authors
+     * without a known relay list fall back to our read relays. Defaults
+     * to false.
+     */
+    outboxRouting?: boolean;
+    /** Durable outbox that retries publishes until enough relays accept them. */
+    outbox?: PublishOutbox;
+    /** Local event cache for local-first query()/subscribe() results. */
+    eventStore?: LocalEventStore;
+    /**
+     * Upper bound on events kept for replay to late-connecting relays
+     * (replaceable events, relay lists, deletion requests); the least
+     * recently published go first. Defaults to 500.
+     */
+    maxReplayEvents?: number;
+    /** Persists the replay buffer, so a reload still re-seeds late relays. */
+    replayStore?: PublishReplayStore;
+    /**
+     * Open REQs allowed per relay before further ones are queued until a
+     * slot frees up. Defaults to 20; a relay's own NIP-11
+     * max_subscriptions takes precedence once known.
+     */
+    maxSubscriptionsPerRelay?: number;
+    /**
+     * Fetch each relay's NIP-11 information document when connecting to
+     * it, and adapt to what it advertises: subscription and message size
+     * limits, NIP-77 support, AUTH requirements. Defaults to true.
+     */
+    relayInfo?: boolean;
+    /**
+     * How relay sockets are opened. Defaults to the global WebSocket;
+     * outside browsers pass e.g. `(url) => new WebSocket(url)` with
+     * WebSocket imported from the `ws` package.
+     */
+    webSocketFactory?: WebSocketFactory;
+    /**
+     * Default for QueryOptions.negentropy: sync query() snapshots against
+     * the event store with NIP-77 instead of re-downloading them. Defaults
+     * to false.
+     */
+    negentropy?: boolean;
   }
   
   /**
    * A generic Nostr relay client.
    *
    * Provides Nostr primitives with no domain-specific logic:
-   *   - WebSocket relay connections with exponential-backoff auto-reconnect
-   *   - Event creation, signing, and signature verification
+   *   - WebSocket relay connections (global or injected, e.g. Node `ws`) with exponential-backoff auto-reconnect
+   *   - Per-relay health metrics and scoring (relayStats)
+   *   - A runtime-editable relay set with per-relay read/write roles
+   *   - Optional NIP-65 outbox-model routing by author relay lists
+   *   - Event creation, signing (through a pluggable Signer), and signature verification
    *   - NIP-33 parameterized-replaceable event publishing (NIP-40 expiration friendly)
    *   - One-off event publishing
+   *   - NIP-13 proof of work: mined off the main thread, enforced per subscription
    *   - Subscriptions with late-relay replay, EOSE tracking, and updates
+   *   - REQ coalescing, per-relay subscription limits, and oversized-filter splitting
    *   - Reliable snapshot queries (settle-detection, timeout, retry)
-   *   - Publish-then-verify workflow
-   *   - NIP-44 payload encryption/decryption and encrypted event send/receive
-   *   - Cross-relay event deduplication
+   *   - Optional NIP-77 negentropy sync of snapshots against the event store
+   *   - Per-relay publish acknowledgements (NIP-01 OK) and NOTICE/CLOSED surfacing
+   *   - Opt-in NIP-42 relay authentication with replay of auth-gated REQs/EVENTs
+   *   - NIP-11 relay information, used to respect advertised limits and capabilities
+   *   - Publish-then-verify workflow, plus an optional durable outbox for retries
+   *   - Bounded, expiry-aware late-relay replay of published events, optionally persisted
+   *   - NIP-19 shareable references (naddr/nevent/nprofile) with relay hints
+   *   - NIP-44 payload encryption/decryption and encrypted event send/receive,
+   *     NIP-17 gift-wrapped by default
+   *   - Per-subscription cross-relay event deduplication
+   *   - Optional local-first results from a LocalEventStore
+   *   - Opt-in latest-wins resolution of replaceable events and tombstones
+   *   - NIP-09 deletion requests, sent with tombstones and honoured on receipt
    */
   export class NostrClient {
-    private readonly sk: Uint8Array;
-    private readonly pk: string;
-    private readonly relays: string[];
+    /**
+     * Per-relay health: connect latency, uptime, reconnects, EOSE latency,
+     * events, bad signatures, publish outcomes and a 0..1 score. Best
+     * relays first; emits at most once a second.
+     */
+    readonly relayStats: ReadableStore<RelayStats[]>;
+    private readonly signer: Signer;
+    /** Our pubkey once the signer has reported it; null until then for async signers. */
+    private pk: string | null = null;
+    private readonly relayRoles = new Map<string, RelayRole>(); // relay URL -> role
+    private readonly onRelayListChange: ((relays: RelayListEntry[]) => void) | null;
+    private readonly outboxRouting: boolean;
+    private readonly outbox: PublishOutbox | null;
+    private readonly eventStore: LocalEventStore | null;
+    private readonly negentropy: boolean;
+    private negentropySupport = new Map<string, boolean>(); // relay URL -> answered NEG-OPEN before
+    private pendingNegentropy = new Map<string, PendingNegentropy>(); // NEG sub id -> session
+    private negentropySerial = 0;
+    /** Relays connected only because an outbox route points at them; not part of relayRoles. */
+    private transientRelays = new Set<string>();
+    private authorRelayLists = new Map<string, AuthorRelayList & { fetchedAt: number }>(); // pubkey -> NIP-65 list
+    private relayListFetches = new Map<string, Promise<void>>(); // pubkey -> in-flight lookup
+    /** Messages for relays we started connecting to on demand, flushed on open. */
+    private queuedSends = new Map<string, { eventId: string; msg: string }[]>();
     private readonly replaceableKind: number;
     private readonly encryptedKind: number;
+    private readonly privateMessages: PrivateMessageMode;
+    private dmRelayLists = new Map<string, { relays: string[]; fetchedAt: number }>(); // pubkey -> kind-10050 relays
     private readonly log: (level: 'info' | 'warn', message: string) => void;
+    private readonly onNotice: ((relayUrl: string, message: string) => void) | null;
+    private readonly publishAckTimeoutMs: number;
+    private readonly powTimeoutMs: number;
+    private authPolicy: AuthPolicy;
   
-    private sockets = new Map<string, WebSocket>();
+    private sockets = new Map<string, RelaySocket>();
+    private readonly webSocketFactory: WebSocketFactory;
     private subscriptions = new Map<string, StoredSubscription>();
+    private readonly maxSubscriptionsPerRelay: number;
+    private reqs = new Map<string, WireReq>(); // wire REQ id -> shared REQ
+    private reqSerial = 0;
+    private querySerial = 0;
+    private pendingPlans = new Set<string>(); // subscription ids waiting for the next coalescing pass
+    private planScheduled = false;
+    private activeReqs = new Map<string, Set<string>>(); // relay URL -> REQ ids open there
+    private queuedReqs = new Map<string, string[]>(); // relay URL -> REQ ids waiting for a slot
+    private relaySubscriptionLimits = new Map<string, number>(); // relay URL -> its own max_subscriptions
+    private readonly fetchRelayInfoOnConnect: boolean;
+    private relayInfo = new Map<string, { info: RelayInfo | null; fetchedAt: number }>(); // relay URL -> NIP-11 doc
+    private relayInfoFetches = new Map<string, Promise<RelayInfo | null>>(); // relay URL -> in-flight fetch
+    private readonly health: RelayHealthTracker = createRelayHealthTracker();
     /**
-     * Replay buffer for already-published events (replaceable + one-off),
-     * keyed by a cache key derived from the event. Kept so that relays
-     * which connect (or reconnect) after publish still receive them —
-     * generic infrastructure for late-relay replay, not a persistence layer.
+     * Replay buffer for already-published replaceable events and deletion
+     * requests, keyed by a cache key derived from the event. Kept so that
+     * relays which connect (or reconnect) after publish still receive them.
      */
-    private publishReplayBuffer = new Map<string, string>(); // cacheKey -> signed ["EVENT", ...] JSON
-    private seenEventIds = new Set<string>(); // cross-relay dedup
-    private conversationKeys = new Map<string, Uint8Array>(); // peer pubkey -> NIP-44 key
+    private readonly publishReplayBuffer: ReplayBuffer;
+    private readonly replayStore: PublishReplayStore | null;
+    private replayRestore: Promise<void> | null = null;
+    private eventRelays = new Map<string, Set<string>>(); // verified event id -> relays that sent it
+    private pendingPublishes = new Map<string, PendingPublish>(); // event id -> outstanding OKs
     private reconnectAttempts = new Map<string, number>();
     private reconnectTimers = new Map<string, ReturnType<typeof setTimeout>>();
     private relayCountCallback: ((connected: number, total: number) => void) | null = null;
+    private relayStatusCallback: ((relayUrl: string, status: RelayStatus) => void) | null = null;
+    private relayStatuses = new Map<string, RelayStatus>();
+    private authChallenges = new Map<string, string>(); // relay URL -> latest NIP-42 challenge
+    private authenticatedRelays = new Set<string>();
+    private authInFlight = new Map<string, Promise<boolean>>(); // relay URL -> running authenticate()
+    private pendingAuths = new Map<string, PendingAuth>(); // AUTH event id -> waiting authenticate()
+    private authDeferred = new Map<string, AuthDeferred>(); // relay URL -> work to replay after AUTH
+    private started = false;
     private closed = false;
   
-    constructor(secretKey: Uint8Array, options: NostrClientOptions = {}) {
-      this.sk = secretKey;
-      this.pk = getPublicKey(secretKey);
-      this.relays = options.relays ?? [...DEFAULT_RELAYS];
+    /**
+     * Accepts either a raw secret key (wrapped in an in-memory signer, as
+     * before) or any Signer — e.g. createNip07Signer() or createNip46Signer().
+     */
+    constructor(secretKeyOrSigner: Uint8Array | Signer, options: NostrClientOptions = {}) {
+      if (secretKeyOrSigner instanceof Uint8Array) {
+        const signer = createSecretKeySigner(secretKeyOrSigner);
+        this.signer = signer;
+        this.pk = signer.pubkey;
+      } else {
+        this.signer = secretKeyOrSigner;
+      }
+      for (const entry of options.relays ?? DEFAULT_RELAYS) {
+        if (typeof entry === 'string') this.relayRoles.set(normalizeRelayUrl(entry), 'both');
+        else this.relayRoles.set(normalizeRelayUrl(entry.url), entry.role);
+      }
+      this.onRelayListChange = options.onRelayListChange ?? null;
+      this.outboxRouting = options.outboxRouting ?? false;
+      this.outbox = options.outbox ?? null;
+      this.eventStore = options.eventStore ?? null;
+      this.replayStore = options.replayStore ?? null;
+      this.publishReplayBuffer = createReplayBuffer(
+        options.maxReplayEvents ?? DEFAULT_MAX_REPLAY_EVENTS,
+        this.replayStore,
+        (err) => this.log('warn', `Replay buffer persistence failed: ${err}`),
+      );
+      this.negentropy = options.negentropy ?? false;
+      this.maxSubscriptionsPerRelay = options.maxSubscriptionsPerRelay ?? DEFAULT_MAX_SUBSCRIPTIONS_PER_RELAY;
+      this.fetchRelayInfoOnConnect = options.relayInfo ?? true;
+      this.relayStats = readonlyStore(this.health.stats);
+      this.webSocketFactory = options.webSocketFactory ?? ((url) => new WebSocket(url));
       this.replaceableKind = options.replaceableKind ?? DEFAULT_REPLACEABLE_KIND;
       this.encryptedKind = options.encryptedKind ?? DEFAULT_ENCRYPTED_KIND;
+      this.privateMessages = options.privateMessages ?? 'nip17';
       this.log = options.onLog ?? (() => {});
+      this.onNotice = options.onNotice ?? null;
+      this.publishAckTimeoutMs = options.publishAckTimeoutMs ?? PUBLISH_ACK_TIMEOUT_MS;
+      this.powTimeoutMs = options.powTimeoutMs ?? POW_TIMEOUT_MS;
+      this.authPolicy = options.authPolicy ?? 'never';
+      this.signer.attach?.(this);
+      this.outbox?.attach?.(this);
     }
   
-    /** Our Nostr public key (hex). */
+    /**
+     * Our Nostr public key (hex). Known immediately for an in-memory key;
+     * for external signers it is an empty string until getPublicKey() (or
+     * the first publish) has resolved it.
+     */
     get pubkey(): string {
+      return this.pk ?? '';
+    }
+  
+    /** Resolve (and cache) our public key from the signer. */
+    async getPublicKey(): Promise<string> {
+      this.pk ??= await this.signer.getPublicKey();
       return this.pk;
     }
   
@@ -415,52 +1364,298 @@ import {
       this.emitRelayCount();
     }
   
+    /**
+     * Register a callback fired whenever a relay's connection or NIP-42
+     * authentication state changes. Called once per known relay on
+     * registration with its current state.
+     */
+    onRelayStatus(cb: (relayUrl: string, status: RelayStatus) => void): void {
+      this.relayStatusCallback = cb;
+      for (const [url, status] of this.relayStatuses) cb(url, status);
+    }
+  
+    /** Current connection/authentication state of a relay. */
+    getRelayStatus(relayUrl: string): RelayStatus {
+      return this.relayStatuses.get(relayUrl) ?? 'disconnected';
+    }
+  
+    /**
+     * A relay's NIP-11 information document: fetched over HTTP(S) on first
+     * use (or when connecting, with the `relayInfo` option) and cached for
+     * an hour. Resolves null if the relay doesn't serve one.
+     */
+    getRelayInfo(url: string): Promise<RelayInfo | null> {
+      const relayUrl = normalizeRelayUrl(url);
+      const cached = this.relayInfo.get(relayUrl);
+      if (cached && Date.now() - cached.fetchedAt < RELAY_INFO_TTL_MS) return Promise.resolve(cached.info);
+  
+      let running = this.relayInfoFetches.get(relayUrl);
+      if (!running) {
+        running = this.fetchRelayInfo(relayUrl).finally(() => this.relayInfoFetches.delete(relayUrl));
+        this.relayInfoFetches.set(relayUrl, running);
+      }
+      return running;
+    }
+  
+    private async fetchRelayInfo(relayUrl: string): Promise<RelayInfo | null> {
+      let info: RelayInfo | null = null;
+      // Only real relays serve NIP-11 (not e.g. in-process mock:// ones).
+      if (!/^wss?:\/\//i.test(relayUrl)) return null;
+      try {
+        const res = await fetch(relayUrl.replace(/^ws(s?):\/\//i, 'http$1://'), {
+          headers: { Accept: 'application/nostr+json' },
+          signal: AbortSignal.timeout(RELAY_INFO_TIMEOUT_MS),
+        });
+        if (res.ok) {
+          const body: unknown = await res.json();
+          if (body && typeof body === 'object' && !Array.isArray(body)) info = body as RelayInfo;
+        }
+      } catch (err) {
+        this.log('warn', `NIP-11 fetch from ${relayUrl} failed: ${err instanceof Error ? err.message : err}`);
+      }
+      this.relayInfo.set(relayUrl, { info, fetchedAt: Date.now() });
+      if (info) this.applyRelayInfo(relayUrl, info);
+      return info;
+    }
+  
+    /** Adapt to what a relay advertises: its REQ limit, NIP-77 support, AUTH requirement. */
+    private applyRelayInfo(relayUrl: string, info: RelayInfo): void {
+      const limits = info.limitation ?? {};
+      if (typeof limits.max_subscriptions === 'number' && limits.max_subscriptions > 0) {
+        this.relaySubscriptionLimits.set(relayUrl, limits.max_subscriptions);
+        this.drainReqs(relayUrl);
+      }
+      // A relay that answered NEG-OPEN keeps its flag, whatever its document says.
+      if (Array.isArray(info.supported_nips) && !this.negentropySupport.get(relayUrl)) {
+        this.negentropySupport.set(relayUrl, info.supported_nips.includes(77));
+      }
+      if (limits.auth_required && !this.authAllowed(relayUrl)) {
+        this.log('warn', `${relayUrl} requires NIP-42 AUTH, which the auth policy doesn't allow`);
+      }
+    }
+  
+    /** True if `msg` is longer than the relay's advertised max_message_length. */
+    private exceedsMessageLimit(relayUrl: string, msg: string): boolean {
+      const max = this.relayInfo.get(relayUrl)?.info?.limitation?.max_message_length;
+      return typeof max === 'number' && max > 0 && new TextEncoder().encode(msg).length > max;
+    }
+  
     /** Number of relays currently connected (readyState OPEN). */
     getConnectedRelayCount(): number {
       let count = 0;
-      for (const ws of this.sockets.values()) if (ws.readyState === WebSocket.OPEN) count++;
+      for (const ws of this.sockets.values()) if (ws.readyState === SOCKET_OPEN) count++;
       return count;
     }
   
-    /** URLs of relays currently connected (readyState OPEN). */
-    getConnectedRelayUrls(): string[] {
+    /** URLs of relays currently connected (readyState OPEN), optionally only those usable for `role`. */
+    getConnectedRelayUrls(role?: 'read' | 'write'): string[] {
       const urls: string[] = [];
-      for (const [url, ws] of this.sockets.entries()) if (ws.readyState === WebSocket.OPEN) urls.push(url);
+      for (const [url, ws] of this.sockets.entries()) {
+        if (ws.readyState !== SOCKET_OPEN) continue;
+        if (role === 'read' && !this.canRead(url)) continue;
+        if (role === 'write' && !this.canWrite(url)) continue;
+        urls.push(url);
+      }
       return urls;
     }
   
     /** Start connecting to all configured relays in the background (non-blocking). */
     connect(): void {
-      for (const url of this.relays) this.connectRelay(url);
+      this.started = true;
+      for (const url of this.relayRoles.keys()) this.connectRelay(url);
+      this.replayRestore ??= this.restoreReplayBuffer();
     }
   
-    /** Disconnect from all relays and cancel pending reconnections. Clears cached/subscription state. */
-    disconnect(): void {
-      this.closed = true;
+    /** Load the persisted replay buffer and send it to write relays that are already open. */
+    private async restoreReplayBuffer(): Promise<void> {
+      if (!this.replayStore) return;
+      try {
+        const restored = this.publishReplayBuffer.restore(await this.replayStore.load());
+        if (restored.length > 0) this.log('info', `Restored ${restored.length} events for relay replay`);
+        for (const url of this.getConnectedRelayUrls('write')) {
+          for (const entry of restored) this.replayTo(url, entry);
+        }
+      } catch (err) {
+        this.log('warn', `Could not load the replay buffer: ${err}`);
+      }
+    }
   
-      for (const timer of this.reconnectTimers.values()) clearTimeout(timer);
-      this.reconnectTimers.clear();
-      this.reconnectAttempts.clear();
+    private replayTo(relayUrl: string, entry: ReplayEntry): void {
+      if (entry.acceptedBy.includes(relayUrl)) return;
+      const msg = JSON.stringify(['EVENT', entry.event]);
+      if (!this.exceedsMessageLimit(relayUrl, msg)) this.sockets.get(relayUrl)?.send(msg);
+    }
   
-      for (const ws of this.sockets.values()) ws.close();
+    // ─── Relay set management ──────────────────────────────────────────
   
-      this.sockets.clear();
-      this.subscriptions.clear();
-      this.publishReplayBuffer.clear();
-      this.conversationKeys.clear();
-      this.log('info', 'Disconnected from all relays');
+    /** The configured relays and their roles, in insertion order. */
+    getRelayList(): RelayListEntry[] {
+      return [...this.relayRoles].map(([url, role]) => ({ url, role }));
     }
   
     /**
-     * Wait until relay connectivity looks "ready": either the expected relay
-     * count is reached, or the connection count has gone quiet (no new
-     * connections for settleQuietMs) — whichever comes first, bounded by
-     * timeoutMs.
+     * Add a relay at runtime (or change its role if already present). If
+     * the client is connected, the relay is connected right away; once it
+     * is open it receives active subscriptions (read role) and the replay
+     * buffer (write role) like any other relay.
      */
-    async waitReady(options: WaitReadyOptions = {}): Promise<WaitReadyResult> {
-      const expectedRelays = options.expectedRelays ?? this.relays.length;
-      const settleQuietMs = options.settleQuietMs ?? 3000;
-      const minRelaysAfterSettle = options.minRelaysAfterSettle ?? 1;
+    addRelay(url: string, role: RelayRole = 'both'): void {
+      const relayUrl = normalizeRelayUrl(url);
+      if (this.relayRoles.has(relayUrl)) {
+        this.setRelayRole(relayUrl, role);
+        return;
+      }
+      this.relayRoles.set(relayUrl, role);
+      if (this.started) this.connectRelay(relayUrl);
+      this.emitRelayCount();
+      this.emitRelayList();
+    }
+  
+    /**
+     * Remove a relay at runtime: closes its socket, cancels any pending
+     * reconnect, and forgets its status. Subscriptions and the replay
+     * buffer are untouched for the remaining relays.
+     */
+    removeRelay(url: string): void {
+      const relayUrl = normalizeRelayUrl(url);
+      if (!this.relayRoles.delete(relayUrl)) return;
+  
+      const timer = this.reconnectTimers.get(relayUrl);
+      if (timer) clearTimeout(timer);
+      this.reconnectTimers.delete(relayUrl);
+      this.reconnectAttempts.delete(relayUrl);
+  
+      const ws = this.sockets.get(relayUrl);
+      if (ws) {
+        ws.onclose = null;
+        ws.onmessage = null;
+        ws.close();
+        this.sockets.delete(relayUrl);
+      }
+      this.activeReqs.delete(relayUrl);
+      this.queuedReqs.delete(relayUrl);
+      this.authChallenges.delete(relayUrl);
+      this.authenticatedRelays.delete(relayUrl);
+      this.authDeferred.delete(relayUrl);
+      this.setRelayStatus(relayUrl, 'disconnected');
+      this.relayStatuses.delete(relayUrl);
+      this.health.remove(relayUrl);
+  
+      this.log('info', `Removed relay ${relayUrl}`);
+      this.emitRelayCount();
+      this.emitRelayList();
+    }
+  
+    /**
+     * Change what a relay is used for. Gaining the read role sends it our
+     * active subscriptions; losing it CLOSEs them there. Gaining the write
+     * role replays the publish buffer to it.
+     */
+    setRelayRole(url: string, role: RelayRole): void {
+      const relayUrl = normalizeRelayUrl(url);
+      const previous = this.relayRoles.get(relayUrl);
+      if (!previous || previous === role) return;
+  
+      const couldRead = this.canRead(relayUrl);
+      const couldWrite = this.canWrite(relayUrl);
+      this.relayRoles.set(relayUrl, role);
+  
+      const ws = this.sockets.get(relayUrl);
+      if (ws?.readyState === SOCKET_OPEN) {
+        const unrouted = [...this.reqs.values()].filter((req) => !req.relays);
+        if (!couldRead && this.canRead(relayUrl)) {
+          for (const req of unrouted) this.sendReq(relayUrl, req);
+        } else if (couldRead && !this.canRead(relayUrl)) {
+          for (const req of unrouted) this.closeReq(relayUrl, req.id);
+        }
+        if (!couldWrite && this.canWrite(relayUrl)) {
+          for (const entry of this.publishReplayBuffer.pendingFor(relayUrl)) this.replayTo(relayUrl, entry);
+        }
+      }
+      this.emitRelayList();
+    }
+  
+    private canRead(relayUrl: string): boolean {
+      const role = this.relayRoles.get(relayUrl);
+      return role === 'read' || role === 'both';
+    }
+  
+    private canWrite(relayUrl: string): boolean {
+      const role = this.relayRoles.get(relayUrl);
+      return role === 'write' || role === 'both';
+    }
+  
+    private emitRelayList(): void {
+      this.onRelayListChange?.(this.getRelayList());
+    }
+  
+    /** The relays a REQ goes to: its outbox route if it has one, else every read relay. */
+    private reqTargets(req: WireReq): string[] {
+      if (req.relays) return [...req.relays];
+      return [...this.relayRoles.keys()].filter((url) => this.canRead(url));
+    }
+  
+    /** Send a raw message to each of `relayUrls` that is currently open. */
+    private sendTo(relayUrls: Iterable<string>, msg: string): void {
+      for (const url of relayUrls) {
+        const ws = this.sockets.get(url);
+        if (ws?.readyState === SOCKET_OPEN) ws.send(msg);
+      }
+    }
+  
+    /** Disconnect from all relays and cancel pending reconnections. Clears cached/subscription state. */
+    disconnect(): void {
+      this.closed = true;
+  
+      for (const timer of this.reconnectTimers.values()) clearTimeout(timer);
+      this.reconnectTimers.clear();
+      this.reconnectAttempts.clear();
+  
+      for (const ws of this.sockets.values()) ws.close();
+  
+      for (const pending of this.pendingAuths.values()) {
+        clearTimeout(pending.timer);
+        pending.resolve(false);
+      }
+      this.pendingAuths.clear();
+      for (const pending of this.pendingNegentropy.values()) {
+        clearTimeout(pending.timer);
+        pending.resolve(null);
+      }
+      this.pendingNegentropy.clear();
+      this.authInFlight.clear();
+      this.authChallenges.clear();
+      this.authenticatedRelays.clear();
+      this.authDeferred.clear();
+  
+      this.sockets.clear();
+      for (const sub of this.subscriptions.values()) sub.expiry?.clearAll();
+      this.subscriptions.clear();
+      this.reqs.clear();
+      this.pendingPlans.clear();
+      this.activeReqs.clear();
+      this.queuedReqs.clear();
+      this.publishReplayBuffer.clear();
+      this.replayRestore = null;
+      for (const pending of this.pendingPublishes.values()) {
+        clearTimeout(pending.timer);
+        pending.resolve(pending.acks);
+      }
+      this.pendingPublishes.clear();
+      this.health.close();
+      this.log('info', 'Disconnected from all relays');
+    }
+  
+    /**
+     * Wait until relay connectivity looks "ready": either the expected relay
+     * count is reached, or the connection count has gone quiet (no new
+     * connections for settleQuietMs) — whichever comes first, bounded by
+     * timeoutMs.
+     */
+    async waitReady(options: WaitReadyOptions = {}): Promise<WaitReadyResult> {
+      const expectedRelays = options.expectedRelays ?? this.relayRoles.size;
+      const settleQuietMs = options.settleQuietMs ?? 3000;
+      const minRelaysAfterSettle = options.minRelaysAfterSettle ?? 1;
       const timeoutMs = options.timeoutMs ?? 20000;
       const pollMs = options.pollMs ?? 100;
       const startedAt = Date.now();
@@ -491,10 +1686,14 @@ import {
     }
   
     private connectRelay(url: string): void {
-      if (this.closed) return;
+      if (this.closed || (!this.relayRoles.has(url) && !this.transientRelays.has(url))) return;
+  
+      if (this.fetchRelayInfoOnConnect) void this.getRelayInfo(url);
   
       try {
-        const ws = new WebSocket(url);
+        this.setRelayStatus(url, 'connecting');
+        this.health.connecting(url);
+        const ws = this.webSocketFactory(url);
   
         ws.onopen = () => {
           if (this.closed) {
@@ -503,25 +1702,51 @@ import {
           }
           this.sockets.set(url, ws);
           this.reconnectAttempts.delete(url);
+          this.setRelayStatus(url, 'connected');
+          this.health.connected(url);
           this.emitRelayCount();
           this.log('info', `Connected to ${url}`);
   
-          // Replay cached (replaceable/one-off) events to this newly connected relay.
-          for (const msg of this.publishReplayBuffer.values()) ws.send(msg);
+          // Replay cached events this relay hasn't accepted yet.
+          if (this.canWrite(url)) for (const entry of this.publishReplayBuffer.pendingFor(url)) this.replayTo(url, entry);
   
-          // Replay active subscriptions to this relay.
-          for (const sub of this.subscriptions.values()) ws.send(JSON.stringify(['REQ', sub.id, sub.filter]));
+          // Replay active REQs routed to this relay.
+          for (const req of this.reqs.values()) {
+            if (this.reqTargets(req).includes(url)) this.sendReq(url, req);
+          }
+  
+          // Flush events that were waiting for this relay to open (outbox targets).
+          for (const { eventId, msg } of this.queuedSends.get(url) ?? []) {
+            ws.send(msg);
+            this.pendingPublishes.get(eventId)?.expected.add(url);
+          }
+          this.queuedSends.delete(url);
+          this.outbox?.relayConnected?.(url);
         };
   
         ws.onclose = () => {
           this.sockets.delete(url);
+          this.activeReqs.delete(url);
+          this.queuedReqs.delete(url);
+          // AUTH is per connection: a reconnect starts from a fresh challenge.
+          this.authChallenges.delete(url);
+          this.authenticatedRelays.delete(url);
+          this.authDeferred.delete(url);
+          this.setRelayStatus(url, 'disconnected');
+          this.health.disconnected(url);
           this.emitRelayCount();
+          if (this.transientRelays.has(url) && !this.isRouted(url)) {
+            this.transientRelays.delete(url);
+            this.relayStatuses.delete(url);
+            this.health.remove(url);
+            return;
+          }
           this.scheduleReconnect(url);
         };
   
         ws.onerror = () => {};
   
-        ws.onmessage = (msg) => this.handleMessage(msg.data as string, url);
+        ws.onmessage = (msg) => this.handleMessage(typeof msg.data === 'string' ? msg.data : String(msg.data), url);
       } catch {
         this.scheduleReconnect(url);
       }
@@ -529,9 +1754,10 @@ import {
   
     /** Exponential-backoff reconnect: 1s -> 2s -> 4s -> ... -> 30s (capped). */
     private scheduleReconnect(url: string): void {
-      if (this.closed) return;
+      if (this.closed || (!this.relayRoles.has(url) && !this.transientRelays.has(url))) return;
   
       const attempt = this.reconnectAttempts.get(url) ?? 0;
+      this.health.reconnectScheduled(url);
       const delay = Math.min(RECONNECT_BASE_MS * Math.pow(2, attempt), RECONNECT_MAX_MS);
       this.reconnectAttempts.set(url, attempt + 1);
   
@@ -552,7 +1778,341 @@ import {
   
     private emitRelayCount(): void {
       if (!this.relayCountCallback) return;
-      this.relayCountCallback(this.getConnectedRelayCount(), this.relays.length);
+      this.relayCountCallback(this.getConnectedRelayCount(), this.relayRoles.size);
+    }
+  
+    private setRelayStatus(relayUrl: string, status: RelayStatus): void {
+      if (this.relayStatuses.get(relayUrl) === status) return;
+      this.relayStatuses.set(relayUrl, status);
+      this.relayStatusCallback?.(relayUrl, status);
+    }
+  
+    // ─── NIP-42 authentication ──────────────────────────────────────────
+  
+    /** Replace the AUTH policy (e.g. after the user opts a relay in from settings). */
+    setAuthPolicy(policy: AuthPolicy): void {
+      this.authPolicy = policy;
+    }
+  
+    private authAllowed(relayUrl: string): boolean {
+      const policy = this.authPolicy;
+      return policy === 'always' || (typeof policy === 'function' && policy(relayUrl));
+    }
+  
+    private handleAuthChallenge(relayUrl: string, challenge: string): void {
+      this.authChallenges.set(relayUrl, challenge);
+      this.authenticatedRelays.delete(relayUrl);
+      if (this.authAllowed(relayUrl)) void this.authenticate(relayUrl);
+    }
+  
+    /**
+     * Answer a relay's pending NIP-42 challenge with a signed kind-22242
+     * event. Resolves true once the relay OKs it, after which any REQs or
+     * EVENTs it refused with `auth-required:` are re-sent. Can be called
+     * manually regardless of the AUTH policy; resolves false if the relay
+     * has not issued a challenge or rejects the AUTH.
+     */
+    authenticate(relayUrl: string): Promise<boolean> {
+      if (this.authenticatedRelays.has(relayUrl)) return Promise.resolve(true);
+      let running = this.authInFlight.get(relayUrl);
+      if (!running) {
+        running = this.runAuth(relayUrl).finally(() => this.authInFlight.delete(relayUrl));
+        this.authInFlight.set(relayUrl, running);
+      }
+      return running;
+    }
+  
+    private async runAuth(relayUrl: string): Promise<boolean> {
+      const challenge = this.authChallenges.get(relayUrl);
+      if (!challenge) return false;
+  
+      this.setRelayStatus(relayUrl, 'authenticating');
+      let event: NostrEvent;
+      try {
+        event = await this.sign(makeAuthEvent(relayUrl, challenge));
+      } catch (err) {
+        this.log('warn', `Could not sign AUTH for ${relayUrl}: ${err instanceof Error ? err.message : err}`);
+        this.finishAuth(relayUrl, false, 'auth-required: could not sign AUTH event');
+        return false;
+      }
+  
+      const ws = this.sockets.get(relayUrl);
+      if (!ws || ws.readyState !== SOCKET_OPEN || this.authChallenges.get(relayUrl) !== challenge) return false;
+  
+      return new Promise((resolve) => {
+        this.pendingAuths.set(event.id, {
+          relayUrl,
+          resolve,
+          timer: setTimeout(() => {
+            this.pendingAuths.delete(event.id);
+            this.finishAuth(relayUrl, false, 'auth-required: relay did not answer AUTH');
+            resolve(false);
+          }, AUTH_TIMEOUT_MS),
+        });
+        ws.send(JSON.stringify(['AUTH', event]));
+      });
+    }
+  
+    /** Record the AUTH outcome, then replay (on success) or fail (otherwise) the deferred work. */
+    private finishAuth(relayUrl: string, ok: boolean, reason: string): void {
+      const deferred = this.authDeferred.get(relayUrl);
+      this.authDeferred.delete(relayUrl);
+  
+      if (ok) {
+        this.authenticatedRelays.add(relayUrl);
+        this.setRelayStatus(relayUrl, 'authenticated');
+        this.log('info', `Authenticated to ${relayUrl}`);
+      } else {
+        this.setRelayStatus(relayUrl, 'auth-failed');
+        this.log('warn', `Authentication to ${relayUrl} failed: ${reason}`);
+      }
+      if (!deferred) return;
+  
+      const ws = this.sockets.get(relayUrl);
+      for (const reqId of deferred.reqIds) {
+        const req = this.reqs.get(reqId);
+        if (!req) continue;
+        if (ok && ws?.readyState === SOCKET_OPEN) {
+          this.sendReq(relayUrl, req);
+        } else {
+          this.releaseReq(relayUrl, reqId);
+          for (const id of req.members) this.subscriptions.get(id)?.onClosed?.(relayUrl, reason);
+        }
+      }
+      for (const [eventId, msg] of deferred.events) {
+        if (ok && ws?.readyState === SOCKET_OPEN) ws.send(msg);
+        else this.recordAck(relayUrl, eventId, false, reason);
+      }
+    }
+  
+    /**
+     * Park a REQ or EVENT a relay refused with `auth-required:` until we
+     * have authenticated, and kick off authentication. Returns false (so
+     * the refusal is reported as-is) when the policy forbids AUTH for
+     * this relay, or when we are already authenticated and it still refused.
+     */
+    private deferUntilAuthenticated(relayUrl: string, item: { reqId: string } | { eventId: string; msg: string }): boolean {
+      if (!this.authAllowed(relayUrl) || this.authenticatedRelays.has(relayUrl)) return false;
+  
+      let deferred = this.authDeferred.get(relayUrl);
+      if (!deferred) {
+        deferred = { reqIds: new Set(), events: new Map() };
+        this.authDeferred.set(relayUrl, deferred);
+      }
+      if ('reqId' in item) deferred.reqIds.add(item.reqId);
+      else deferred.events.set(item.eventId, item.msg);
+  
+      if (this.authChallenges.has(relayUrl)) void this.authenticate(relayUrl);
+      else this.setRelayStatus(relayUrl, 'auth-required');
+      return true;
+    }
+  
+    // ─── NIP-65 outbox routing ──────────────────────────────────────────
+  
+    /** The cached NIP-65 relay list for an author, if one has been fetched or seen. */
+    getAuthorRelayList(pubkey: string): AuthorRelayList | undefined {
+      const cached = this.authorRelayLists.get(pubkey);
+      if (!cached) return undefined;
+      const { fetchedAt: _fetchedAt, ...list } = cached;
+      return list;
+    }
+  
+    /**
+     * Make sure relay lists for `pubkeys` are cached (and not older than
+     * an hour), querying our own relays for any that are missing. Authors
+     * without a list are cached as empty so they aren't re-queried on
+     * every subscription.
+     */
+    async fetchRelayLists(pubkeys: string[]): Promise<void> {
+      const now = Date.now();
+      const missing = pubkeys.filter((pk) => {
+        const cached = this.authorRelayLists.get(pk);
+        return (!cached || now - cached.fetchedAt > RELAY_LIST_TTL_MS) && !this.relayListFetches.has(pk);
+      });
+  
+      if (missing.length > 0) {
+        const fetch = this.query(
+          { kinds: [RELAY_LIST_KIND], authors: missing },
+          { subIdPrefix: 'nip65', outbox: false, retries: 0, timeoutMs: 5000, settleQuietMs: 1000 },
+        ).then((result) => {
+          for (const event of result.events) this.cacheRelayList(event);
+          for (const pk of missing) {
+            if (!this.authorRelayLists.has(pk)) {
+              this.authorRelayLists.set(pk, { pubkey: pk, read: [], write: [], createdAt: 0, fetchedAt: Date.now() });
+            }
+            this.relayListFetches.delete(pk);
+          }
+        });
+        for (const pk of missing) this.relayListFetches.set(pk, fetch);
+      }
+  
+      await Promise.all(pubkeys.map((pk) => this.relayListFetches.get(pk)).filter(Boolean));
+    }
+  
+    /**
+     * Publish our own NIP-65 relay list (defaults to the client's current
+     * relay set and roles). Cached for late-relay replay like any other
+     * replaceable event.
+     */
+    async publishRelayList(relays: RelayListEntry[] = this.getRelayList()): Promise<PublishResult> {
+      const event = await this.sign({
+        kind: RELAY_LIST_KIND,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: relays.map((r) => (r.role === 'both' ? ['r', r.url] : ['r', r.url, r.role])),
+        content: '',
+      });
+      const msg = JSON.stringify(['EVENT', event]);
+      this.publishReplayBuffer.set(`rep:${RELAY_LIST_KIND}:`, event);
+      this.cacheRelayList(event);
+      this.log('info', `Published relay list (${relays.length} relays)`);
+      return { event, acks: this.sendTracked(event, msg) };
+    }
+  
+    /** Keep the newest kind-10002 per author. */
+    private cacheRelayList(event: NostrEvent): void {
+      const cached = this.authorRelayLists.get(event.pubkey);
+      if (cached && cached.createdAt >= event.created_at) {
+        cached.fetchedAt = Date.now();
+        return;
+      }
+      this.authorRelayLists.set(event.pubkey, {
+        pubkey: event.pubkey,
+        ...parseRelayListEvent(event),
+        createdAt: event.created_at,
+        fetchedAt: Date.now(),
+      });
+    }
+  
+    /**
+     * Outbox route for a filter: the union of its authors' write relays
+     * (a few per author), plus our own read relays if any author has no
+     * known list. Undefined when the filter isn't routed at all.
+     */
+    private routeFilter(filter: NostrFilter, outbox = this.outboxRouting): Set<string> | undefined {
+      if (!outbox || !filter.authors?.length) return undefined;
+  
+      const relays = new Set<string>();
+      let fallback = false;
+      for (const author of filter.authors) {
+        const write = this.authorRelayLists.get(author)?.write ?? [];
+        if (write.length === 0) fallback = true;
+        for (const url of write.slice(0, OUTBOX_RELAYS_PER_AUTHOR)) {
+          if (this.relayRoles.has(url) || this.ensureTransientRelay(url)) relays.add(url);
+        }
+      }
+      if (fallback || relays.size === 0) {
+        for (const url of this.relayRoles.keys()) if (this.canRead(url)) relays.add(url);
+      }
+      return relays;
+    }
+  
+    /**
+     * Start connecting to a relay outside our own set because a route
+     * needs it. Returns false once MAX_OUTBOX_RELAYS on-demand relays are
+     * in use, so a huge author list can't open hundreds of sockets.
+     */
+    private ensureTransientRelay(url: string): boolean {
+      if (this.transientRelays.has(url)) return true;
+      if (this.transientRelays.size >= MAX_OUTBOX_RELAYS) return false;
+      this.transientRelays.add(url);
+      this.connectRelay(url);
+      return true;
+    }
+  
+    /** True if any active subscription's outbox route includes this relay. */
+    private isRouted(url: string): boolean {
+      for (const sub of this.subscriptions.values()) if (sub.relays?.has(url)) return true;
+      return false;
+    }
+  
+    /** Recompute a subscription's route (e.g. after its authors' relay lists arrived) and move its REQ. */
+    private reroute(id: string): void {
+      const sub = this.subscriptions.get(id);
+      if (!sub) return;
+      const route = this.routeFilter(sub.filter);
+      const key = (relays?: Set<string>) => (relays ? [...relays].sort().join(' ') : '*');
+      if (key(route) === key(sub.relays)) return;
+  
+      this.detach(sub);
+      sub.relays = route;
+      this.schedulePlan(id);
+    }
+  
+    /** Wait (bounded) for on-demand relays to open; returns the ones that did. */
+    private async waitForRelays(relayUrls: string[], timeoutMs: number): Promise<string[]> {
+      const startedAt = Date.now();
+      const open = () => relayUrls.filter((url) => this.sockets.get(url)?.readyState === SOCKET_OPEN);
+      while (open().length < relayUrls.length && Date.now() - startedAt < timeoutMs) await sleep(100);
+      return open();
+    }
+  
+    // ─── Kind-0 profiles ────────────────────────────────────────────────
+  
+    /**
+     * Fetch the latest kind-0 profile of each pubkey — from their write
+     * relays when outbox routing is on. At most one event per author;
+     * authors without a profile are simply absent. Large author lists are
+     * split across filters by the REQ layer.
+     */
+    async fetchProfiles(pubkeys: string[]): Promise<NostrEvent[]> {
+      const authors = [...new Set(pubkeys)];
+      if (authors.length === 0) return [];
+      const result = await this.query(
+        { kinds: [PROFILE_KIND], authors },
+        { subIdPrefix: 'profiles', retries: 0, timeoutMs: 5000, settleQuietMs: 1000, resolveReplaceable: true },
+      );
+      return result.events;
+    }
+  
+    /**
+     * Publish our kind-0 profile. It replaces the previous one wholesale,
+     * so pass the complete metadata (the current profile merged with the
+     * edits). Empty fields are left out. Cached for late-relay replay.
+     */
+    async publishProfile(metadata: ProfileMetadata): Promise<PublishResult> {
+      const content = Object.fromEntries(
+        Object.entries(metadata).filter(([, value]) => value != null && value !== '' && !(Array.isArray(value) && value.length === 0)),
+      );
+      const event = await this.sign({
+        kind: PROFILE_KIND,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [],
+        content: JSON.stringify(content),
+      });
+      const msg = JSON.stringify(['EVENT', event]);
+      this.publishReplayBuffer.set(`rep:${PROFILE_KIND}:`, event);
+      this.log('info', 'Published profile');
+      return { event, acks: this.sendTracked(event, msg) };
+    }
+  
+    // ─── Local event store ──────────────────────────────────────────────
+  
+    private saveLocal(event: NostrEvent): void {
+      this.eventStore?.save(event).catch((err) => {
+        this.log('warn', `Local store save failed: ${err instanceof Error ? err.message : err}`);
+      });
+    }
+  
+    /** Cached events matching `filter`; empty (with a warning) if the store fails. */
+    private async queryLocal(filter: NostrFilter): Promise<NostrEvent[]> {
+      if (!this.eventStore) return [];
+      try {
+        return await this.eventStore.query(filter);
+      } catch (err) {
+        this.log('warn', `Local store query failed: ${err instanceof Error ? err.message : err}`);
+        return [];
+      }
+    }
+  
+    /** Hand a new subscription its cached matches, ahead of (and deduped against) relay results. */
+    private async deliverCached(subId: string, filter: NostrFilter): Promise<void> {
+      const cached = await this.queryLocal(filter);
+      const sub = this.subscriptions.get(subId);
+      if (!sub) return;
+      for (const event of cached) {
+        if (!this.accepts(sub, event) || !this.markSeen(sub, event.id)) continue;
+        this.deliver(sub, event);
+      }
     }
   
     // ─── Message handling / dedup / verification ───────────────────────
@@ -563,47 +2123,315 @@ import {
         if (!Array.isArray(data)) return;
   
         if (data[0] === 'EVENT' && data[1] && data[2]) {
-          this.handleIncomingEvent(data[1] as string, data[2] as NostrEvent);
+          this.handleIncomingEvent(data[1] as string, relayUrl, data[2] as NostrEvent);
         } else if (data[0] === 'EOSE' && data[1]) {
-          const sub = this.subscriptions.get(data[1] as string);
-          sub?.onEoseRelay?.(relayUrl);
-          sub?.onEose?.();
+          this.handleEose(relayUrl, data[1] as string);
+        } else if (data[0] === 'OK' && data[1]) {
+          this.handleOk(relayUrl, data[1] as string, data[2] === true, String(data[3] ?? ''));
+        } else if (data[0] === 'CLOSED' && data[1]) {
+          const reason = String(data[2] ?? '');
+          if (parseReasonPrefix(reason) === 'auth-required' && this.deferUntilAuthenticated(relayUrl, { reqId: data[1] as string })) return;
+          this.log('warn', `${relayUrl} closed subscription ${data[1]}: ${reason}`);
+          this.releaseReq(relayUrl, data[1] as string);
+          for (const id of this.reqs.get(data[1] as string)?.members ?? []) {
+            this.subscriptions.get(id)?.onClosed?.(relayUrl, reason);
+          }
+        } else if (data[0] === 'NEG-MSG' && data[1]) {
+          this.handleNegentropyMessage(relayUrl, data[1] as string, String(data[2] ?? ''));
+        } else if (data[0] === 'NEG-ERR' && data[1]) {
+          this.finishNegentropy(data[1] as string, relayUrl, false, String(data[2] ?? ''));
+        } else if (data[0] === 'AUTH' && typeof data[1] === 'string') {
+          this.handleAuthChallenge(relayUrl, data[1]);
+        } else if (data[0] === 'NOTICE') {
+          const message = String(data[1] ?? '');
+          this.log('warn', `NOTICE from ${relayUrl}: ${message}`);
+          this.onNotice?.(relayUrl, message);
         }
       } catch {
         // Malformed relay message — ignore.
       }
     }
   
-    private handleIncomingEvent(subId: string, event: NostrEvent): void {
-      const isOwn = event.pubkey === this.pk;
+    private handleOk(relayUrl: string, eventId: string, accepted: boolean, reason: string): void {
+      const auth = this.pendingAuths.get(eventId);
+      if (auth) {
+        clearTimeout(auth.timer);
+        this.pendingAuths.delete(eventId);
+        this.finishAuth(auth.relayUrl, accepted, reason);
+        auth.resolve(accepted);
+        return;
+      }
+  
+      const pending = this.pendingPublishes.get(eventId);
+      if (
+        pending &&
+        !accepted &&
+        parseReasonPrefix(reason) === 'auth-required' &&
+        this.deferUntilAuthenticated(relayUrl, { eventId, msg: pending.msg })
+      ) {
+        return; // re-sent after AUTH; its real OK arrives then
+      }
+      this.recordAck(relayUrl, eventId, accepted, reason);
+    }
   
-      // Own events skip verification/dedup so self-subscriptions see every echo.
-      if (!isOwn) {
-        if (this.seenEventIds.has(event.id)) return;
+    /** Record one relay's OK for a pending publish; settle once all expected relays answered. */
+    private recordAck(relayUrl: string, eventId: string, accepted: boolean, reason: string): void {
+      if (accepted) this.publishReplayBuffer.accepted(eventId, relayUrl);
+      const pending = this.pendingPublishes.get(eventId);
+      if (!pending) return;
   
-        if (!verifyNostrEvent(event)) {
-          this.log('warn', `Rejected event with invalid signature: ${event.id?.slice(0, 8)}`);
-          return;
-        }
+      pending.acks[relayUrl] = { status: accepted ? 'accepted' : 'rejected', reason, prefix: parseReasonPrefix(reason) };
+      this.health.publishAck(relayUrl, accepted ? 'accepted' : 'rejected');
+      if (!accepted) this.log('warn', `${relayUrl} rejected ${eventId.slice(0, 8)}: ${reason}`);
+  
+      if ([...pending.expected].every((url) => pending.acks[url])) {
+        clearTimeout(pending.timer);
+        this.pendingPublishes.delete(eventId);
+        pending.resolve(pending.acks);
+      }
+    }
+  
+    /**
+     * Whether an event may be delivered to a subscription: relays are not
+     * trusted to honour the filter they were sent, nor NIP-40 expiration.
+     * Events short of the subscription's minPow are dropped here too.
+     */
+    private accepts(sub: StoredSubscription, event: NostrEvent): boolean {
+      if (!matchesFilter(event, sub.filter)) return false;
+      const expiration = getExpiration(event);
+      if (expiration !== undefined && expiration <= Math.floor(Date.now() / 1000)) return false;
+      return !sub.minPow || this.isKnownAuthor(sub, event.pubkey) || getPowDifficulty(event) >= sub.minPow;
+    }
+  
+    /** Authors exempt from a subscription's minPow. */
+    private isKnownAuthor(sub: StoredSubscription, pubkey: string): boolean {
+      return pubkey === this.pk || !!sub.filter.authors?.includes(pubkey) || !!sub.isKnownAuthor?.(pubkey);
+    }
   
-        this.seenEventIds.add(event.id);
-        if (this.seenEventIds.size > MAX_SEEN_IDS) {
-          const iter = this.seenEventIds.values();
-          this.seenEventIds.delete(iter.next().value!);
+    private deliver(sub: StoredSubscription, event: NostrEvent): void {
+      if (sub.resolver) {
+        for (const change of sub.resolver.add(event)) {
+          if (change.type !== 'add') sub.expiry?.clear(change.previous.id);
+          if (change.type === 'remove') sub.onRemove?.(change.address, change.previous, change.tombstone);
+          else this.deliverLive(sub, change.event, change.type === 'replace' ? change.previous : undefined);
         }
+        return;
       }
+      this.deliverLive(sub, event);
+    }
   
-      const sub = this.subscriptions.get(subId);
-      sub?.onEvent(event);
+    private deliverLive(sub: StoredSubscription, event: NostrEvent, previous?: NostrEvent): void {
+      const expiration = getExpiration(event);
+      if (sub.onExpire && expiration !== undefined) {
+        sub.expiry ??= createExpiryTracker();
+        sub.expiry.set(event.id, expiration, () => sub.onExpire?.(event));
+      }
+      if (previous && sub.onReplace) sub.onReplace(event, previous);
+      else sub.onEvent(event);
+    }
+  
+    /** Record `eventId` as delivered to `sub`. False if it already was. */
+    private markSeen(sub: StoredSubscription, eventId: string): boolean {
+      sub.seen ??= new Set();
+      if (sub.seen.has(eventId)) return false;
+      sub.seen.add(eventId);
+      if (sub.seen.size > MAX_SEEN_IDS) sub.seen.delete(sub.seen.values().next().value!);
+      return true;
+    }
+  
+    private handleIncomingEvent(reqId: string, relayUrl: string, event: NostrEvent): void {
+      const req = this.reqs.get(reqId);
+      if (!req) return;
+      this.health.eventReceived(relayUrl);
+      if (!req.filters.some((filter) => matchesFilter(event, filter))) {
+        this.log('warn', `Dropped event ${event.id?.slice(0, 8)} not matching subscription ${reqId}`);
+        return;
+      }
+  
+      // Checked before dedup so a stray event can't mark a real one as seen.
+      const targets = [...req.members]
+        .map((id) => this.subscriptions.get(id))
+        .filter((sub): sub is StoredSubscription => !!sub && this.accepts(sub, event));
+      if (targets.length === 0) return;
+  
+      const isOwn = this.pk !== null && event.pubkey === this.pk;
+      let relays = this.eventRelays.get(event.id);
+      const firstSighting = !relays;
+  
+      // A signature is checked once per event id. Later copies (other
+      // relays, other subscriptions) only need their content to hash to
+      // that id — the id commits to pubkey, content and tags. Events
+      // claiming to be our own are checked too: anyone can put our pubkey
+      // on an event, and it would be saved locally like the real ones.
+      const valid = firstSighting ? verifyNostrEvent(event) : getEventHash(event) === event.id;
+      if (!valid) {
+        this.health.invalidSignature(relayUrl);
+        this.log('warn', `Rejected event with invalid signature: ${event.id?.slice(0, 8)}`);
+        return;
+      }
+  
+      if (!relays) {
+        relays = new Set();
+        this.eventRelays.set(event.id, relays);
+        if (this.eventRelays.size > MAX_SEEN_IDS) this.eventRelays.delete(this.eventRelays.keys().next().value!);
+      }
+      relays.add(relayUrl);
+  
+      if (firstSighting) {
+        if (event.kind === RELAY_LIST_KIND) this.cacheRelayList(event);
+        this.saveLocal(event);
+      }
+  
+      // Own events skip dedup so self-subscriptions see every echo.
+      for (const sub of targets) {
+        if (isOwn || this.markSeen(sub, event.id)) this.deliver(sub, event);
+      }
+    }
+  
+    /** A relay finished sending stored events for a REQ; tell members whose every REQ is done there. */
+    private handleEose(relayUrl: string, reqId: string): void {
+      const req = this.reqs.get(reqId);
+      if (!req) return;
+      const sentAt = req.sentAt.get(relayUrl);
+      if (sentAt !== undefined && !req.eose.has(relayUrl)) this.health.eose(relayUrl, Date.now() - sentAt);
+      req.eose.add(relayUrl);
+      for (const id of req.members) {
+        const sub = this.subscriptions.get(id);
+        if (!sub?.reqIds || ![...sub.reqIds].every((other) => this.reqs.get(other)?.eose.has(relayUrl))) continue;
+        sub.onEoseRelay?.(relayUrl);
+        sub.onEose?.();
+      }
+    }
+  
+    /** Relays that have sent this event so far (within the recently-seen window). */
+    getEventRelays(eventId: string): string[] {
+      return [...(this.eventRelays.get(eventId) ?? [])];
+    }
+  
+    /**
+     * Shareable NIP-19 reference to an event: an naddr for replaceable
+     * events (so it follows updates), an nevent otherwise. Relay hints are
+     * the relays it was seen on, then our write relays.
+     */
+    getShareableReference(event: NostrEvent): string {
+      const relays = this.relayHints(this.getEventRelays(event.id));
+      return encodeAddress(event, relays) ?? encodeEvent(event, relays);
+    }
+  
+    /** Shareable NIP-19 nprofile for a pubkey (ours by default), hinting our write relays. */
+    async getShareableProfile(pubkey?: string): Promise<string> {
+      return encodeProfile(pubkey ?? (await this.getPublicKey()), this.relayHints([]));
+    }
+  
+    private relayHints(seenOn: string[]): string[] {
+      const write = [...this.relayRoles].filter(([, role]) => role !== 'read').map(([url]) => url);
+      return [...new Set([...seenOn, ...write])];
     }
   
     // ─── Publishing ─────────────────────────────────────────────────────
   
-    /** Broadcast a signed event message to all connected relays. */
-    private broadcast(msg: string): void {
-      for (const ws of this.sockets.values()) {
-        if (ws.readyState === WebSocket.OPEN) ws.send(msg);
+    /**
+     * Send a signed event to all connected write relays (plus any
+     * `extraRelays`, connected on demand) and start collecting their OKs.
+     * The returned promise settles when every relay it went to has
+     * answered, or after publishAckTimeoutMs with the stragglers marked
+     * `timeout`.
+     */
+    private broadcast(
+      event: NostrEvent,
+      msg: string = JSON.stringify(['EVENT', event]),
+      extraRelays: string[] = [],
+    ): Promise<PublishAckMap> {
+      const sentTo = this.getConnectedRelayUrls('write');
+      const queuedFor: string[] = [];
+      for (const url of extraRelays) {
+        if (sentTo.includes(url)) continue;
+        if (this.sockets.get(url)?.readyState === SOCKET_OPEN) {
+          sentTo.push(url);
+        } else if (this.relayRoles.has(url) || this.ensureTransientRelay(url)) {
+          const queue = this.queuedSends.get(url) ?? [];
+          queue.push({ eventId: event.id, msg });
+          this.queuedSends.set(url, queue);
+          queuedFor.push(url);
+        }
       }
+      // Relays that advertise a smaller max_message_length would only reject it.
+      const oversized = sentTo.filter((url) => this.exceedsMessageLimit(url, msg));
+      for (const url of sentTo) if (!oversized.includes(url)) this.sockets.get(url)!.send(msg);
+      // Relays still connecting are waited for too (their OK arrives once the
+      // queued send goes out on open), so the pending entry must exist even
+      // when nothing could be sent yet.
+      const expected = [...sentTo, ...queuedFor];
+      if (expected.length === 0) return Promise.resolve({});
+      const rejectOversized = () => {
+        for (const url of oversized) this.recordAck(url, event.id, false, 'invalid: exceeds max_message_length (not sent)');
+      };
+  
+      // Re-publishing the same event merges into the outstanding wait.
+      const existing = this.pendingPublishes.get(event.id);
+      if (existing) {
+        for (const url of expected) existing.expected.add(url);
+        const merged = new Promise<PublishAckMap>((resolve) => {
+          const prev = existing.resolve;
+          existing.resolve = (acks) => {
+            prev(acks);
+            resolve(acks);
+          };
+        });
+        rejectOversized();
+        return merged;
+      }
+  
+      const acks = new Promise<PublishAckMap>((resolve) => {
+        const pending: PendingPublish = {
+          msg,
+          expected: new Set(expected),
+          acks: {},
+          resolve,
+          timer: setTimeout(() => {
+            this.pendingPublishes.delete(event.id);
+            for (const url of pending.expected) {
+              if (pending.acks[url]) continue;
+              pending.acks[url] = { status: 'timeout', reason: '' };
+              this.health.publishAck(url, 'timeout');
+            }
+            pending.resolve(pending.acks);
+          }, this.publishAckTimeoutMs),
+        };
+        this.pendingPublishes.set(event.id, pending);
+      });
+      rejectOversized();
+      return acks;
+    }
+  
+    /** broadcast() for events we created, handing them to the outbox (if any) for retry. */
+    private sendTracked(event: NostrEvent, msg?: string, extraRelays?: string[]): Promise<PublishAckMap> {
+      const acks = this.broadcast(event, msg, extraRelays);
+      this.outbox?.track(event, acks, extraRelays);
+      this.saveLocal(event);
+      return acks;
+    }
+  
+    /** Sign a template through the configured signer, mining NIP-13 work first if `pow` is set. */
+    private async sign(template: EventTemplate, pow?: number, powSignal?: AbortSignal): Promise<NostrEvent> {
+      const pubkey = await this.getPublicKey();
+      if (pow) {
+        const options: MineOptions = { signal: powSignal, timeoutMs: this.powTimeoutMs };
+        const mined = await mineEvent({ ...template, pubkey }, pow, options);
+        template = { kind: mined.kind, created_at: mined.created_at, tags: mined.tags, content: mined.content };
+        this.log('info', `Mined proof of work (difficulty ${pow})`);
+      }
+      return this.signer.signEvent(template);
+    }
+  
+    /**
+     * Broadcast an event that is already signed (by us or anyone else)
+     * as-is. Not cached for replay. Also the transport relay-backed
+     * signers (NIP-46) use to reach their bunker. `extraRelays` are sent
+     * to alongside the write relays, connected on demand.
+     */
+    publishSigned(event: NostrEvent, extraRelays?: string[]): PublishResult {
+      return { event, acks: this.broadcast(event, undefined, extraRelays) };
     }
   
     /**
@@ -611,24 +2439,24 @@ import {
      * replay to late-connecting relays — use publishReplaceable for events
      * that should persist and be replayed.
      */
-    publish(input: PublishOptions): NostrEvent {
+    async publish(input: PublishOptions): Promise<PublishResult> {
       const template: EventTemplate = {
         kind: input.kind,
         created_at: input.createdAt ?? Math.floor(Date.now() / 1000),
         tags: input.tags ?? [],
         content: input.content ?? '',
       };
-      const event = finalizeEvent(template, this.sk);
-      this.broadcast(JSON.stringify(['EVENT', event]));
-      return event;
+      const event = await this.sign(template, input.pow, input.powSignal);
+      return { event, acks: this.sendTracked(event) };
     }
   
     /**
      * Publish a NIP-33 parameterized-replaceable event (identified by its
      * `d` tag). Cached for automatic replay to relays that connect later.
-     * Returns the signed event.
+     * Returns the signed event and its per-relay acks (for the relays
+     * connected now — late-relay replays are not tracked).
      */
-    publishReplaceable(input: ReplaceableEventInput): NostrEvent {
+    async publishReplaceable(input: ReplaceableEventInput): Promise<PublishResult> {
       const kind = input.kind ?? this.replaceableKind;
       const template: EventTemplate = {
         kind,
@@ -637,27 +2465,32 @@ import {
         content: input.content,
       };
   
-      const event = finalizeEvent(template, this.sk);
+      const event = await this.sign(template, input.pow, input.powSignal);
       const msg = JSON.stringify(['EVENT', event]);
-      this.publishReplayBuffer.set(`rep:${kind}:${input.dTag}`, msg);
-      this.broadcast(msg);
+      this.publishReplayBuffer.set(`rep:${kind}:${input.dTag}`, event);
+      this.publishReplayBuffer.delete(`del:${kind}:${input.dTag}`);
+      const acks = this.sendTracked(event, msg);
   
       this.log('info', `Published replaceable event (kind=${kind}, d=${input.dTag})`);
-      return event;
+      return { event, acks };
     }
   
     /**
      * Publish a replaceable event, then run a reliable snapshot query to
-     * confirm relays actually accepted it. Generic publish-then-verify
-     * workflow: retries the verification query on failure and reports a
-     * best-effort sync/verification outcome.
+     * confirm relays actually serve it. Generic publish-then-verify
+     * workflow: a relay's OK counts as verification on its own; otherwise
+     * the query (which retries on failure) has to find the event. Reports
+     * a best-effort sync/verification outcome plus the raw acks.
      */
     async publishReplaceableWithVerify(options: PublishWithVerifyOptions): Promise<PublishVerifyResult> {
-      const event = this.publishReplaceable(options);
-      let verified = false;
+      const { event, acks: acksPromise } = await this.publishReplaceable(options);
+      const acks = await acksPromise;
+      let verified = Object.values(acks).some((ack) => ack.status === 'accepted');
   
       const snapshot = await this.query(options.verifyFilter, {
         ...options.query,
+        local: false, // our own copy is always in the local store
+  
         onEvent: (e) => {
           if (e.id === event.id) verified = true;
           options.query?.onEvent?.(e);
@@ -678,7 +2511,7 @@ import {
           ? 'failed'
           : 'verify_pending';
   
-      return { status, meta: snapshot.meta, event, verified, outcome };
+      return { status, meta: snapshot.meta, event, verified, outcome, acks };
     }
   
     /**
@@ -686,23 +2519,64 @@ import {
      * replaceable event, identified by its `d` tag. Implemented as an
      * ordinary replaceable event via publishReplaceable — no new publish
      * mechanism, just the DELETION_TAG_VALUE convention layered on top.
+     *
+     * A NIP-09 deletion request for the same address (and, if it's in the
+     * replay buffer, the exact version being retired) goes out alongside,
+     * dated one second before the tombstone so relays honouring it don't
+     * delete the tombstone too. Both are replayed to late relays.
      */
-    publishDeletionMarker(dTag: string, extraTags: string[][] = [], kind?: number): NostrEvent {
-      return this.publishReplaceable({
+    async publishDeletionMarker(dTag: string, extraTags: string[][] = [], kind?: number): Promise<DeletionMarkerResult> {
+      const resolvedKind = kind ?? this.replaceableKind;
+      const retired = this.publishReplayBuffer.get(`rep:${resolvedKind}:${dTag}`)?.event;
+      const tombstone = await this.publishReplaceable({
         dTag,
         tags: [['t', DELETION_TAG_VALUE], ...extraTags],
         content: '',
         kind,
       });
+  
+      const request = await this.sign({
+        kind: DELETION_REQUEST_KIND,
+        created_at: tombstone.event.created_at - 1,
+        tags: deletionRequestTags({
+          ids: retired ? [retired.id] : [],
+          addresses: [getReplaceableAddress(tombstone.event)],
+        }),
+        content: '',
+      });
+      const msg = JSON.stringify(['EVENT', request]);
+      this.publishReplayBuffer.set(`del:${resolvedKind}:${dTag}`, request);
+      return { ...tombstone, deletionRequest: { event: request, acks: this.sendTracked(request, msg) } };
+    }
+  
+    /**
+     * Publish a NIP-09 deletion request for our own events, by id and/or
+     * replaceable address (`kind:pubkey:d`, as getReplaceableAddress()
+     * returns). Relays and clients that support NIP-09 stop serving or
+     * showing the targets; others ignore it. Not replayed to late relays.
+     */
+    publishDeletionRequest(targets: { ids?: string[]; addresses?: string[]; reason?: string }): Promise<PublishResult> {
+      return this.publish({
+        kind: DELETION_REQUEST_KIND,
+        tags: deletionRequestTags({ ids: targets.ids ?? [], addresses: targets.addresses ?? [] }),
+        content: targets.reason ?? '',
+      });
     }
   
     // ─── Subscriptions ──────────────────────────────────────────────────
   
     /**
      * Subscribe to events matching a filter. Stored and replayed to
-     * late-connecting relays. onEose fires per relay (onEoseRelay) and once
+     * late-connecting relays. With a local event store configured,
+     * cached matches are delivered first. onEose fires per relay (onEoseRelay) and once
      * overall (onEose) — useful for detecting when stored-event backfill is
-     * complete. Returns a handle for convenient update/close.
+     * complete. onClosed reports a relay ending the subscription with
+     * CLOSED, along with its reason (e.g. `auth-required:`, `error:`).
+     * Events that don't match the filter, or whose NIP-40 expiration has
+     * passed, are dropped; options.onExpire fires when a delivered event
+     * expires later, while the subscription is still open. See
+     * SubscribeOptions for latest-wins replaceable resolution.
+     * Returns a handle for convenient update/close.
      */
     subscribe(
       id: string,
@@ -710,11 +2584,30 @@ import {
       onEvent: (event: NostrEvent) => void,
       onEose?: () => void,
       onEoseRelay?: (relayUrl: string) => void,
+      onClosed?: (relayUrl: string, reason: string) => void,
+      options: SubscribeOptions = {},
     ): SubscriptionHandle {
-      this.subscriptions.set(id, { id, filter, onEvent, onEose, onEoseRelay });
+      this.openSubscription({
+        id,
+        filter,
+        onEvent,
+        onEose,
+        onEoseRelay,
+        onClosed,
+        onExpire: options.onExpire,
+        onReplace: options.onReplace,
+        onRemove: options.onRemove,
+        minPow: options.minPow,
+        isKnownAuthor: options.isKnownAuthor,
+        resolver: options.resolveReplaceable ? createReplaceableResolver() : undefined,
+        relays: this.routeFilter(filter),
+      });
+      if (this.eventStore) void this.deliverCached(id, filter);
   
-      for (const ws of this.sockets.values()) {
-        if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(['REQ', id, filter]));
+      // Route with whatever relay lists are cached now; move the REQ once missing ones arrive.
+      if (this.outboxRouting && filter.authors?.length) {
+        const missing = filter.authors.filter((pk) => !this.authorRelayLists.has(pk));
+        if (missing.length > 0) void this.fetchRelayLists(missing).then(() => this.reroute(id));
       }
   
       return {
@@ -724,29 +2617,162 @@ import {
       };
     }
   
-    /** Remove a subscription and send CLOSE to all connected relays. */
+    private openSubscription(sub: StoredSubscription): void {
+      const previous = this.subscriptions.get(sub.id);
+      if (previous) {
+        previous.expiry?.clearAll();
+        this.detach(previous);
+      }
+      this.subscriptions.set(sub.id, sub);
+      this.schedulePlan(sub.id);
+    }
+  
+    /** Remove a subscription; CLOSEs any REQ it no longer shares with another subscription. */
     unsubscribe(id: string): void {
+      const sub = this.subscriptions.get(id);
+      if (!sub) return;
       this.subscriptions.delete(id);
-      for (const ws of this.sockets.values()) {
-        if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(['CLOSE', id]));
-      }
+      sub.expiry?.clearAll();
+      this.detach(sub);
     }
   
     /**
      * Update an existing subscription with a new filter (same id, same
-     * callbacks). Sends CLOSE then REQ with the new filter to all connected
-     * relays — e.g. to expand a query's scope without tearing the subscription down.
+     * callbacks). Its old REQs are closed (unless shared) and the new
+     * filter goes out in the next coalesced REQ to the relays it is routed
+     * to — e.g. to expand a query's scope without tearing the subscription
+     * down.
      */
     updateSubscription(id: string, newFilter: NostrFilter): void {
       const sub = this.subscriptions.get(id);
       if (!sub) return;
+      this.detach(sub);
       sub.filter = newFilter;
-      for (const ws of this.sockets.values()) {
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify(['CLOSE', id]));
-          ws.send(JSON.stringify(['REQ', id, newFilter]));
+      sub.relays = this.routeFilter(newFilter);
+      this.schedulePlan(id);
+    }
+  
+    // ─── REQ multiplexing ───────────────────────────────────────────────
+    //
+    // Subscriptions don't map 1:1 onto REQs. Those opened in the same tick
+    // with the same route are packed into shared REQs (up to
+    // MAX_FILTERS_PER_REQ filters each), a filter with huge ids/authors
+    // lists is split across several REQs, and each relay only gets as many
+    // open REQs as its limit allows — the rest wait for a slot.
+  
+    private schedulePlan(id: string): void {
+      this.pendingPlans.add(id);
+      if (this.planScheduled) return;
+      this.planScheduled = true;
+      queueMicrotask(() => {
+        this.planScheduled = false;
+        this.flushPlans();
+      });
+    }
+  
+    /** Pack every subscription waiting for a REQ into as few REQs as possible, and send them. */
+    private flushPlans(): void {
+      const groups = new Map<string, WireReq[]>(); // route key -> REQs being filled
+      for (const id of this.pendingPlans) {
+        const sub = this.subscriptions.get(id);
+        if (!sub) continue;
+        const key = sub.relays ? [...sub.relays].sort().join(' ') : '*';
+        const group = groups.get(key) ?? [];
+        groups.set(key, group);
+  
+        sub.reqIds = new Set();
+        for (const chunk of splitFilter(sub.filter)) {
+          const chunkKey = JSON.stringify(chunk);
+          const shared = (req: WireReq) => req.filters.some((f) => JSON.stringify(f) === chunkKey);
+          // Chunks of one filter go to separate REQs; identical filters share one entry.
+          let req = group.find((r) => !r.members.has(id) && (shared(r) || r.filters.length < MAX_FILTERS_PER_REQ));
+          if (!req) {
+            req = {
+              id: `req-${++this.reqSerial}`,
+              filters: [],
+              members: new Set(),
+              relays: sub.relays && new Set(sub.relays),
+              eose: new Set(),
+              sentAt: new Map(),
+            };
+            group.push(req);
+          }
+          if (!shared(req)) req.filters.push(chunk);
+          req.members.add(id);
+          sub.reqIds.add(req.id);
         }
       }
+      this.pendingPlans.clear();
+  
+      for (const req of [...groups.values()].flat()) {
+        this.reqs.set(req.id, req);
+        for (const url of this.reqTargets(req)) this.sendReq(url, req);
+      }
+    }
+  
+    /** Take a subscription out of its REQs, closing the ones left without members. */
+    private detach(sub: StoredSubscription): void {
+      this.pendingPlans.delete(sub.id);
+      for (const reqId of sub.reqIds ?? []) {
+        const req = this.reqs.get(reqId);
+        if (!req) continue;
+        req.members.delete(sub.id);
+        if (req.members.size > 0) continue;
+        this.reqs.delete(reqId);
+        for (const url of this.reqTargets(req)) this.closeReq(url, reqId);
+      }
+      sub.reqIds = undefined;
+    }
+  
+    private subscriptionLimit(relayUrl: string): number {
+      return this.relaySubscriptionLimits.get(relayUrl) ?? this.maxSubscriptionsPerRelay;
+    }
+  
+    /** Send (or re-send) a REQ to one relay, or queue it if the relay is at its limit. */
+    private sendReq(relayUrl: string, req: WireReq): void {
+      const ws = this.sockets.get(relayUrl);
+      if (ws?.readyState !== SOCKET_OPEN) return; // replayed on open
+  
+      let active = this.activeReqs.get(relayUrl);
+      if (!active) {
+        active = new Set();
+        this.activeReqs.set(relayUrl, active);
+      }
+      if (!active.has(req.id) && active.size >= this.subscriptionLimit(relayUrl)) {
+        const queue = this.queuedReqs.get(relayUrl) ?? [];
+        if (!queue.includes(req.id)) queue.push(req.id);
+        this.queuedReqs.set(relayUrl, queue);
+        return;
+      }
+      active.add(req.id);
+      req.eose.delete(relayUrl);
+      req.sentAt.set(relayUrl, Date.now());
+      ws.send(JSON.stringify(['REQ', req.id, ...req.filters]));
+    }
+  
+    /** CLOSE a REQ on one relay (or drop it from that relay's queue) and let the next one in. */
+    private closeReq(relayUrl: string, reqId: string): void {
+      const queue = this.queuedReqs.get(relayUrl);
+      if (queue?.includes(reqId)) queue.splice(queue.indexOf(reqId), 1);
+      if (!this.activeReqs.get(relayUrl)?.has(reqId)) return;
+      this.sendTo([relayUrl], JSON.stringify(['CLOSE', reqId]));
+      this.releaseReq(relayUrl, reqId);
+    }
+  
+    /** Free a REQ's slot on a relay (closed by us or by the relay) and send queued ones. */
+    private releaseReq(relayUrl: string, reqId: string): void {
+      if (this.activeReqs.get(relayUrl)?.delete(reqId)) this.drainReqs(relayUrl);
+    }
+  
+    /** Send queued REQs while the relay has free slots. */
+    private drainReqs(relayUrl: string): void {
+      const active = this.activeReqs.get(relayUrl);
+      const queue = this.queuedReqs.get(relayUrl);
+      if (!active || !queue) return;
+      while (queue.length > 0 && active.size < this.subscriptionLimit(relayUrl)) {
+        const req = this.reqs.get(queue.shift()!);
+        if (req) this.sendReq(relayUrl, req);
+      }
     }
   
     // ─── Reliable snapshot queries ──────────────────────────────────────
@@ -758,8 +2784,50 @@ import {
      *
      * This is the generic mechanism behind "give me all matching events
      * right now" — the caller decides what the filter and events mean.
+     *
+     * With a local event store configured (and `local` not false), cached
+     * matches are passed to onEvent before any relay is asked, and are
+     * merged into the result — so even a 'failed' query returns them.
      */
     async query(filter: NostrFilter, options: QueryOptions = {}): Promise<RelayQueryResult> {
+      if (!options.resolveReplaceable) return this.queryMerged(filter, options);
+  
+      const resolver = createReplaceableResolver();
+      const result = await this.queryMerged(filter, {
+        ...options,
+        onEvent: (event) => {
+          if (resolver.add(event).some((c) => c.type !== 'remove')) options.onEvent?.(event);
+        },
+      });
+      return { ...result, events: resolveReplaceable(result.events) };
+    }
+  
+    /** query() minus replaceable resolution: cached events merged with the relays'. */
+    private async queryMerged(filter: NostrFilter, options: QueryOptions): Promise<RelayQueryResult> {
+      const cached = options.local === false ? [] : await this.queryLocal(filter);
+      if ((options.negentropy ?? this.negentropy) && this.eventStore && options.local !== false && filter.limit == null) {
+        return this.queryNegentropy(filter, cached, options);
+      }
+      if (cached.length === 0) return this.queryRelays(filter, options);
+  
+      const cachedIds = new Set(cached.map((e) => e.id));
+      for (const event of cached) options.onEvent?.(event);
+      const result = await this.queryRelays(filter, {
+        ...options,
+        onEvent: (event) => {
+          if (!cachedIds.has(event.id)) options.onEvent?.(event);
+        },
+      });
+  
+      const relayIds = new Set(result.events.map((e) => e.id));
+      return {
+        ...result,
+        events: [...result.events, ...cached.filter((e) => !relayIds.has(e.id))],
+        meta: { ...result.meta, cachedEvents: cached.length },
+      };
+    }
+  
+    private async queryRelays(filter: NostrFilter, options: QueryOptions): Promise<RelayQueryResult> {
       const timeoutMs = options.timeoutMs ?? 20000;
       const retries = options.retries ?? 2;
       const retryBackoffMs = options.retryBackoffMs ?? 500;
@@ -767,17 +2835,24 @@ import {
   
       let last: RelayQueryResult | null = null;
   
+      const outbox = (options.outbox ?? this.outboxRouting) && !!filter.authors?.length;
+      if (outbox) await this.fetchRelayLists(filter.authors);
+  
       for (let attempt = 0; attempt <= retries; attempt++) {
         const ready = await this.waitReady(options);
+        const route = this.routeFilter(filter, outbox);
+        const readUrls = route
+          ? await this.waitForRelays([...route], options.settleQuietMs ?? 3000)
+          : ready.relayUrls.filter((url) => this.canRead(url));
   
-        if (!ready.ok || ready.relayUrls.length === 0) {
+        if (!ready.ok || readUrls.length === 0) {
           last = {
             status: 'failed',
             events: [],
             meta: { connectedAtStart: ready.connected, eoseReceived: 0, retriesUsed: attempt, timedOut: true },
           };
         } else {
-          const result = await this.runSingleQuery(filter, subIdPrefix, ready.relayUrls, timeoutMs, options.onEvent);
+          const result = await this.runSingleQuery(filter, subIdPrefix, readUrls, timeoutMs, options.onEvent, route);
           result.meta.retriesUsed = attempt;
           last = result;
           options.onMetrics?.({ ...result.meta, status: result.status });
@@ -802,11 +2877,14 @@ import {
       connectedRelayUrls: string[],
       timeoutMs: number,
       onEvent?: (event: NostrEvent) => void,
+      route?: Set<string>,
     ): Promise<RelayQueryResult> {
       const events: NostrEvent[] = [];
+      const eventIds = new Set<string>();
       const expected = new Set(connectedRelayUrls);
       const seenEose = new Set<string>();
-      const subId = `${subIdPrefix}-${Date.now()}`;
+      const closed: Record<string, string> = {};
+      const subId = `${subIdPrefix}-${Date.now()}-${++this.querySerial}`;
   
       return new Promise((resolve) => {
         let settled = false;
@@ -827,73 +2905,243 @@ import {
           const allEose = seenEose.size >= expected.size;
           const hasSomeEose = seenEose.size > 0;
           const status: RelaySyncStatus = allEose ? 'synced' : hasSomeEose ? 'partial' : 'failed';
-          resolve({
-            status,
-            events,
-            meta: { connectedAtStart: expected.size, eoseReceived: seenEose.size, retriesUsed: 0, timedOut },
-          });
+          const meta: RelayQueryMeta = { connectedAtStart: expected.size, eoseReceived: seenEose.size, retriesUsed: 0, timedOut };
+          if (Object.keys(closed).length > 0) meta.closed = closed;
+          resolve({ status, events, meta });
         };
   
         const timeout = setTimeout(() => finish(true), timeoutMs);
+        // A relay that answered with EOSE or CLOSED has nothing more to say.
+        const maybeFinish = () => {
+          if (seenEose.size + Object.keys(closed).length >= expected.size) {
+            clearTimeout(timeout);
+            finish(false);
+          }
+        };
   
-        this.subscribe(
-          subId,
+        this.openSubscription({
+          id: subId,
           filter,
-          (event) => {
+          relays: route,
+          onEvent: (event) => {
+            // Our own events skip per-subscription dedup so self-subscriptions
+            // see every relay's echo; a snapshot still wants each event once,
+            // or querying our own events across N relays returns N copies.
+            if (eventIds.has(event.id)) return;
+            eventIds.add(event.id);
             events.push(event);
             onEvent?.(event);
           },
-          () => {},
-          (relayUrl) => {
-            if (expected.has(relayUrl)) seenEose.add(relayUrl);
-            if (seenEose.size >= expected.size) {
-              clearTimeout(timeout);
-              finish(false);
-            }
+          onEoseRelay: (relayUrl) => {
+            if (expected.has(relayUrl) && !(relayUrl in closed)) seenEose.add(relayUrl);
+            maybeFinish();
           },
+          onClosed: (relayUrl, reason) => {
+            if (expected.has(relayUrl) && !seenEose.has(relayUrl)) closed[relayUrl] = reason;
+            maybeFinish();
+          },
+        });
+      });
+    }
+  
+    // ─── NIP-77 negentropy sync ─────────────────────────────────────────
+  
+    /**
+     * query() via negentropy: reconcile `local` (the event store's matches)
+     * with each read relay not known to lack NIP-77, fetch just the ids
+     * they have and we don't, and fall back to a plain REQ on relays that
+     * can't reconcile. Returns the local events plus everything fetched.
+     */
+    private async queryNegentropy(
+      filter: NostrFilter,
+      local: NostrEvent[],
+      options: QueryOptions,
+    ): Promise<RelayQueryResult> {
+      const ready = await this.waitReady(options);
+      const readUrls = ready.relayUrls.filter((url) => this.canRead(url));
+      const candidates = readUrls.filter((url) => this.negentropySupport.get(url) !== false);
+      if (!ready.ok || candidates.length === 0) return this.queryMerged(filter, { ...options, negentropy: false });
+  
+      const timeoutMs = options.timeoutMs ?? 20000;
+      const subIdPrefix = options.subIdPrefix ?? 'query';
+      for (const event of local) options.onEvent?.(event);
+  
+      const outcomes = await Promise.all(candidates.map((url) => this.reconcileWith(url, filter, local, timeoutMs)));
+      const synced = candidates.filter((_, i) => outcomes[i] !== null);
+      const need = [...new Set(outcomes.flatMap((ids) => ids ?? []))];
+      const fallback = readUrls.filter((url) => !synced.includes(url));
+  
+      const parts: RelayQueryResult[] = [];
+      for (let i = 0; i < need.length; i += NEGENTROPY_FETCH_CHUNK) {
+        const ids = need.slice(i, i + NEGENTROPY_FETCH_CHUNK);
+        parts.push(await this.runSingleQuery({ ids }, subIdPrefix, synced, timeoutMs, options.onEvent, new Set(synced)));
+      }
+      if (fallback.length > 0) {
+        const localIds = new Set(local.map((e) => e.id));
+        parts.push(
+          await this.runSingleQuery(
+            filter,
+            subIdPrefix,
+            fallback,
+            timeoutMs,
+            (event) => {
+              if (!localIds.has(event.id)) options.onEvent?.(event);
+            },
+            new Set(fallback),
+          ),
+        );
+      }
+  
+      // Reconciled relays count as synced unless fetching from them failed.
+      const events = new Map(local.map((e) => [e.id, e]));
+      for (const part of parts) for (const event of part.events) events.set(event.id, event);
+      const failed = parts.some((p) => p.status === 'failed');
+      const partial = failed || parts.some((p) => p.status === 'partial');
+      const status: RelaySyncStatus = synced.length === 0 && failed ? 'failed' : partial ? 'partial' : 'synced';
+      const meta: RelayQueryMeta = {
+        connectedAtStart: readUrls.length,
+        eoseReceived: synced.length + parts.reduce((n, p) => n + p.meta.eoseReceived, 0),
+        retriesUsed: 0,
+        timedOut: parts.some((p) => p.meta.timedOut),
+        cachedEvents: local.length,
+      };
+      const closed = Object.assign({}, ...parts.map((p) => p.meta.closed ?? {}));
+      if (Object.keys(closed).length > 0) meta.closed = closed;
+  
+      options.onMetrics?.({ ...meta, status });
+      return { status, events: [...events.values()], meta };
+    }
+  
+    /** Run one negentropy reconciliation; resolves with the ids to fetch, or null on failure. */
+    private reconcileWith(
+      relayUrl: string,
+      filter: NostrFilter,
+      local: NostrEvent[],
+      timeoutMs: number,
+    ): Promise<string[] | null> {
+      const subId = `neg-${++this.negentropySerial}`;
+      const session = createNegentropySession(local);
+      const known = this.negentropySupport.get(relayUrl) === true;
+  
+      return new Promise((resolve) => {
+        const timer = setTimeout(
+          () => this.finishNegentropy(subId, relayUrl, false, 'timeout'),
+          known ? timeoutMs : NEGENTROPY_PROBE_TIMEOUT_MS,
         );
+        this.pendingNegentropy.set(subId, { relayUrl, session, need: new Set(), resolve, timer });
+        this.sendTo([relayUrl], JSON.stringify(['NEG-OPEN', subId, filter, session.initiate()]));
       });
     }
   
-    // ─── NIP-44 encryption / encrypted events ──────────────────────────
+    private handleNegentropyMessage(relayUrl: string, subId: string, message: string): void {
+      const pending = this.pendingNegentropy.get(subId);
+      if (!pending || pending.relayUrl !== relayUrl) return;
+      this.negentropySupport.set(relayUrl, true);
+  
+      let round;
+      try {
+        round = pending.session.reconcile(message);
+      } catch (err) {
+        this.finishNegentropy(subId, relayUrl, false, err instanceof Error ? err.message : String(err));
+        return;
+      }
+      for (const id of round.need) pending.need.add(id);
+      if (round.next) this.sendTo([relayUrl], JSON.stringify(['NEG-MSG', subId, round.next]));
+      else this.finishNegentropy(subId, relayUrl, true);
+    }
   
-    /** Get (or derive and cache) the NIP-44 conversation key for a peer. */
-    private getConversationKey(peerPubkey: string): Uint8Array {
-      let key = this.conversationKeys.get(peerPubkey);
-      if (!key) {
-        key = nip44.utils.getConversationKey(this.sk, peerPubkey);
-        this.conversationKeys.set(peerPubkey, key);
+    private finishNegentropy(subId: string, relayUrl: string, ok: boolean, reason = ''): void {
+      const pending = this.pendingNegentropy.get(subId);
+      if (!pending || pending.relayUrl !== relayUrl) return;
+      clearTimeout(pending.timer);
+      this.pendingNegentropy.delete(subId);
+      this.sendTo([relayUrl], JSON.stringify(['NEG-CLOSE', subId]));
+  
+      if (!ok) {
+        // Silence from a relay never seen reconciling means it doesn't speak NIP-77.
+        if (reason === 'timeout' && !this.negentropySupport.has(relayUrl)) this.negentropySupport.set(relayUrl, false);
+        this.log('warn', `Negentropy with ${relayUrl} failed (${reason}); falling back to REQ`);
       }
-      return key;
+      pending.resolve(ok ? [...pending.need] : null);
     }
   
-    /** NIP-44 encrypt plaintext for a given peer pubkey. */
-    encrypt(peerPubkey: string, plaintext: string): string {
-      return nip44.encrypt(plaintext, this.getConversationKey(peerPubkey));
+    // ─── NIP-44 encryption / encrypted events ──────────────────────────
+  
+    /** NIP-44 encrypt plaintext for a given peer pubkey (via the signer). */
+    encrypt(peerPubkey: string, plaintext: string): Promise<string> {
+      return this.signer.nip44Encrypt(peerPubkey, plaintext);
     }
   
-    /** NIP-44 decrypt ciphertext received from a given peer pubkey. */
-    decrypt(peerPubkey: string, ciphertext: string): string {
-      return nip44.decrypt(ciphertext, this.getConversationKey(peerPubkey));
+    /** NIP-44 decrypt ciphertext received from a given peer pubkey (via the signer). */
+    decrypt(peerPubkey: string, ciphertext: string): Promise<string> {
+      return this.signer.nip44Decrypt(peerPubkey, ciphertext);
     }
   
     /**
      * Sign, NIP-44 encrypt, and publish a payload string to a specific
-     * pubkey. `tags` are additional plaintext tags (e.g. NIP-40 expiration);
-     * `p` is always added automatically per NIP-44 convention.
+     * pubkey. `tags` are additional tags (e.g. NIP-40 expiration); `p` is
+     * always added automatically per NIP-44 convention.
+     *
+     * In 'nip17' mode (the default) the message is a `kind` rumor, sealed
+     * and gift-wrapped twice — once for the recipient, sent to their
+     * kind-10050 DM relays when they have any, and once for ourselves so
+     * our other sessions see it. The returned event is the recipient's
+     * gift wrap. In 'direct' mode the signed event itself is published,
+     * with its tags visible; with outbox routing on, it also goes to the
+     * recipient's NIP-65 read relays.
      */
-    sendEncrypted(toPubkey: string, plaintext: string, tags: string[][] = [], kind?: number): NostrEvent {
-      const ciphertext = this.encrypt(toPubkey, plaintext);
+    async sendEncrypted(toPubkey: string, plaintext: string, tags: string[][] = [], kind?: number): Promise<PublishResult> {
+      if (this.privateMessages === 'nip17') return this.sendGiftWrapped(toPubkey, plaintext, tags, kind);
+  
+      const ciphertext = await this.encrypt(toPubkey, plaintext);
       const template: EventTemplate = {
         kind: kind ?? this.encryptedKind,
         created_at: Math.floor(Date.now() / 1000),
         tags: [['p', toPubkey], ...tags],
         content: ciphertext,
       };
-      const event = finalizeEvent(template, this.sk);
-      this.broadcast(JSON.stringify(['EVENT', event]));
-      this.log('info', `Encrypted event sent to ${toPubkey.slice(0, 8)}`);
-      return event;
+      const event = await this.sign(template);
+      const acks = this.sendTracked(event, undefined, await this.inboxRelays(toPubkey));
+      this.log('info', `Encrypted event sent to ${shortNpub(toPubkey)}`);
+      return { event, acks };
+    }
+  
+    private async sendGiftWrapped(toPubkey: string, plaintext: string, tags: string[][], kind?: number): Promise<PublishResult> {
+      const me = await this.getPublicKey();
+      const rumor = createRumor(me, { kind: kind ?? this.encryptedKind, content: plaintext, tags: [['p', toPubkey], ...tags] });
+  
+      const [wrap, selfWrap] = await Promise.all([
+        wrapRumor(this.signer, rumor, toPubkey),
+        toPubkey === me ? null : wrapRumor(this.signer, rumor, me),
+      ]);
+      const acks = this.sendTracked(wrap, undefined, await this.dmInboxRelays(toPubkey));
+      if (selfWrap) this.sendTracked(selfWrap, undefined, await this.dmInboxRelays(me));
+      this.log('info', `Gift-wrapped message sent to ${shortNpub(toPubkey)}`);
+      return { event: wrap, acks };
+    }
+  
+    /** Where to deliver a gift wrap: the recipient's kind-10050 DM relays, else inboxRelays(). */
+    private async dmInboxRelays(pubkey: string): Promise<string[]> {
+      let cached = this.dmRelayLists.get(pubkey);
+      if (!cached || Date.now() - cached.fetchedAt > RELAY_LIST_TTL_MS) {
+        const result = await this.query(
+          { kinds: [DM_RELAY_LIST_KIND], authors: [pubkey] },
+          { subIdPrefix: 'dm-relays', timeoutMs: 5000, retries: 0, resolveReplaceable: true },
+        );
+        const relays = (result.events[0]?.tags ?? [])
+          .filter((t) => t[0] === 'relay' && t[1])
+          .map((t) => normalizeRelayUrl(t[1]));
+        cached = { relays, fetchedAt: Date.now() };
+        this.dmRelayLists.set(pubkey, cached);
+      }
+      return cached.relays.length > 0 ? cached.relays.slice(0, OUTBOX_RELAYS_PER_AUTHOR) : this.inboxRelays(pubkey);
+    }
+  
+    /** With outbox routing on, the recipient's NIP-65 read relays (a few); otherwise none. */
+    private async inboxRelays(pubkey: string): Promise<string[]> {
+      if (!this.outboxRouting) return [];
+      await this.fetchRelayLists([pubkey]);
+      return this.authorRelayLists.get(pubkey)?.read.slice(0, OUTBOX_RELAYS_PER_AUTHOR) ?? [];
     }
   
     /**
@@ -902,20 +3150,63 @@ import {
      * Decryption failures are swallowed (logged) rather than surfaced,
      * since a bad payload from one peer shouldn't break the subscription.
      * Returns the subscription handle.
+     *
+     * In 'nip17' mode the relays are asked for gift wraps addressed to us,
+     * and `filter` is applied to the unwrapped rumors instead (so e.g.
+     * `{ kinds: [14], authors: [peer] }` still works); `event` is then the
+     * rumor, which has no signature.
      */
     subscribeEncrypted(
       filter: NostrFilter,
-      onDecrypted: (fromPubkey: string, plaintext: string, event: NostrEvent) => void,
+      onDecrypted: (fromPubkey: string, plaintext: string, event: NostrEvent | Rumor) => void,
       id: string = `enc-${Date.now()}`,
     ): SubscriptionHandle {
+      if (this.privateMessages === 'nip17') return this.subscribeGiftWrapped(filter, onDecrypted, id);
+  
       return this.subscribe(id, filter, (event: NostrEvent) => {
-        try {
-          const plaintext = this.decrypt(event.pubkey, event.content);
-          onDecrypted(event.pubkey, plaintext, event);
-        } catch {
-          this.log('warn', `Failed to decrypt event from ${event.pubkey.slice(0, 8)}`);
-        }
+        this.decrypt(event.pubkey, event.content).then(
+          (plaintext) => onDecrypted(event.pubkey, plaintext, event),
+          () => this.log('warn', `Failed to decrypt event from ${shortNpub(event.pubkey)}`),
+        );
+      });
+    }
+  
+    private subscribeGiftWrapped(
+      filter: NostrFilter,
+      onDecrypted: (fromPubkey: string, plaintext: string, event: Rumor) => void,
+      id: string,
+    ): SubscriptionHandle {
+      let rumorFilter = filter;
+      let closed = false;
+      // Wrap timestamps are jittered into the past, so widen `since` by the jitter window.
+      const wrapFilter = (pk: string): NostrFilter => {
+        const f: NostrFilter = { kinds: [GIFT_WRAP_KIND], '#p': [pk] };
+        if (rumorFilter.since != null) f.since = rumorFilter.since - GIFT_WRAP_JITTER_SECS;
+        if (rumorFilter.limit != null) f.limit = rumorFilter.limit;
+        return f;
+      };
+  
+      void this.getPublicKey().then((pk) => {
+        if (closed) return;
+        this.subscribe(id, wrapFilter(pk), (wrap: NostrEvent) => {
+          void unwrapGiftWrap(this.signer, wrap).then((rumor) => {
+            if (!rumor) this.log('warn', `Failed to unwrap gift wrap ${wrap.id.slice(0, 8)}`);
+            else if (matchesFilter(rumor as NostrEvent, rumorFilter)) onDecrypted(rumor.pubkey, rumor.content, rumor);
+          });
+        });
       });
+  
+      return {
+        id,
+        update: (next: NostrFilter) => {
+          rumorFilter = next;
+          if (this.pk) this.updateSubscription(id, wrapFilter(this.pk));
+        },
+        close: () => {
+          closed = true;
+          this.unsubscribe(id);
+        },
+      };
     }
   }
   
@@ -925,4 +3216,34 @@ import {
   
   function sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+  
+  /**
+   * Split a filter whose `ids` or `authors` list exceeds MAX_FILTER_VALUES
+   * into several filters that each stay within it (and together match the
+   * same events). Other filters come back as-is.
+   */
+  function splitFilter(filter: NostrFilter): NostrFilter[] {
+    const chunks = (values: string[] | undefined) => {
+      if (!values || values.length <= MAX_FILTER_VALUES) return [values];
+      const out: string[][] = [];
+      for (let i = 0; i < values.length; i += MAX_FILTER_VALUES) out.push(values.slice(i, i + MAX_FILTER_VALUES));
+      return out;
+    };
+    const result: NostrFilter[] = [];
+    for (const ids of chunks(filter.ids)) {
+      for (const authors of chunks(filter.authors)) {
+        const part: NostrFilter = { ...filter };
+        if (ids) part.ids = ids;
+        if (authors) part.authors = authors;
+        result.push(part);
+      }
+    }
+    return result;
+  }
+  
+  /** Extract the NIP-01 machine-readable prefix (`blocked`, `invalid`, ...) from an OK/CLOSED reason. */
+  function parseReasonPrefix(reason: string): string | undefined {
+    const match = /^([a-z-]+):/.exec(reason);
+    return match?.[1];
   }
\ No newline at end of file
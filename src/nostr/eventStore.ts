@@ -0,0 +1,280 @@
+/**
+ * nostr/eventStore.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * IndexedDB-backed local event store that answers NIP-01 filters.
+ *
+ * Events are stored as-is (plus a derived tag index) and indexed by id,
+ * kind, author, created_at and single-letter tags. A query picks the most
+ * selective index the filter allows (ids > authors > tags > kinds >
+ * created_at range), then applies the full filter with matchesFilter()
+ * and NIP-01 ordering/limit semantics (newest first).
+ *
+ * Housekeeping on write: expired (NIP-40) events are not stored, an older
+ * version of a replaceable/addressable event is replaced by a newer one
+ * (equal created_at: the lowest id wins),
+ * a NIP-09 deletion request removes the stored events it covers (see
+ * isDeletedBy), and the store is capped at `maxEvents` (oldest created_at
+ * evicted). Targets arriving after their deletion request are stored.
+ *
+ * Plugs into NostrClient as its `eventStore` option; imported directly,
+ * not through nostr.ts, which stays free of idb.ts:
+ *
+ *   const eventStore = await openEventStore();
+ *   const client = new NostrClient(signer, { eventStore });
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import { IdbDatabase, IdbError } from '../idb';
+import {
+  getDeletionRequestTargets,
+  getExpiration,
+  getReplaceableAddress,
+  isDeletedBy,
+  matchesFilter,
+  type LocalEventStore,
+  type NostrEvent,
+  type NostrFilter,
+} from '../nostr';
+
+const STORE = 'events';
+const DEFAULT_MAX_EVENTS = 50000;
+const WRITE_BATCH_DELAY_MS = 250;
+
+/** What's persisted: the event plus derived index keys. */
+interface StoredEvent extends NostrEvent {
+  /** `${letter}:${value}` for every single-letter tag — backs the byTag index. */
+  tagIndex: string[];
+  /** Replaceable address (see getReplaceableAddress), or '' — backs the byAddress index. */
+  address: string;
+}
+
+export interface EventStoreOptions {
+  /** IndexedDB database name. Defaults to 'nostr-events'. */
+  dbName?: string;
+  /** Upper bound on stored events; the oldest are evicted past it. Defaults to 50000. */
+  maxEvents?: number;
+}
+
+export interface EventStore extends LocalEventStore {
+  /** A single event by id, if stored. */
+  get(id: string): Promise<NostrEvent | undefined>;
+  /** Remove events by id (e.g. after a deletion request). */
+  remove(ids: string[]): Promise<void>;
+  /** Drop every stored event. */
+  clear(): Promise<void>;
+  close(): void;
+}
+
+function toStored(event: NostrEvent): StoredEvent {
+  const tagIndex: string[] = [];
+  for (const tag of event.tags ?? []) {
+    if (tag[0]?.length === 1 && tag[1] != null) tagIndex.push(`${tag[0]}:${tag[1]}`);
+  }
+  return { ...event, tagIndex, address: getReplaceableAddress(event) ?? '' };
+}
+
+function fromStored(stored: StoredEvent): NostrEvent {
+  const { tagIndex: _tagIndex, address: _address, ...event } = stored;
+  return event;
+}
+
+/** True if `a` replaces `b` at their shared address: newer created_at, ties to the lowest id (NIP-01, as resolveReplaceable). */
+function supersedes(a: NostrEvent, b: NostrEvent): boolean {
+  return a.created_at > b.created_at || (a.created_at === b.created_at && a.id < b.id);
+}
+
+function isExpired(event: NostrEvent, nowSecs = Math.floor(Date.now() / 1000)): boolean {
+  const expiration = getExpiration(event);
+  return expiration !== undefined && expiration <= nowSecs;
+}
+
+export async function openEventStore(options: EventStoreOptions = {}): Promise<EventStore> {
+  const db = await IdbDatabase.open({
+    name: options.dbName ?? 'nostr-events',
+    version: 1,
+    stores: [
+      {
+        name: STORE,
+        keyPath: 'id',
+        indexes: [
+          { name: 'byKind', keyPath: 'kind' },
+          { name: 'byAuthor', keyPath: 'pubkey' },
+          { name: 'byCreatedAt', keyPath: 'created_at' },
+          { name: 'byTag', keyPath: 'tagIndex', multiEntry: true },
+          { name: 'byAddress', keyPath: 'address' },
+        ],
+      },
+    ],
+  });
+
+  const maxEvents = options.maxEvents ?? DEFAULT_MAX_EVENTS;
+
+  // Writes are batched: relays deliver events in bursts, and one
+  // transaction per burst is far cheaper than one per event.
+  let writeQueue: NostrEvent[] = [];
+  let writeWaiters: { resolve: () => void; reject: (err: unknown) => void }[] = [];
+  let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  async function flushWrites(): Promise<void> {
+    writeTimer = null;
+    const batch = writeQueue;
+    const waiters = writeWaiters;
+    writeQueue = [];
+    writeWaiters = [];
+
+    try {
+      // Newest version per address wins, both within the batch and against what's stored.
+      const byAddress = new Map<string, NostrEvent>();
+      const plain: NostrEvent[] = [];
+      for (const event of batch) {
+        const address = getReplaceableAddress(event);
+        if (!address) {
+          plain.push(event);
+          continue;
+        }
+        const other = byAddress.get(address);
+        if (!other || supersedes(event, other)) byAddress.set(address, event);
+      }
+
+      const superseded: string[] = [];
+      const winners: NostrEvent[] = [];
+      for (const [address, event] of byAddress) {
+        const existing = await db.getAllFromIndex<StoredEvent>(STORE, 'byAddress', { query: address });
+        if (existing.some((e) => e.id !== event.id && supersedes(e, event))) continue;
+        winners.push(event);
+        for (const e of existing) if (e.id !== event.id) superseded.push(e.id);
+      }
+
+      // NIP-09: deletion requests remove their author's targets, stored or in this batch.
+      const requests = plain.filter((e) => getDeletionRequestTargets(e) !== null);
+      const deleted: string[] = [];
+      for (const request of requests) {
+        const { ids, addresses } = getDeletionRequestTargets(request);
+        const targets = [
+          ...(await Promise.all(ids.map((id) => db.get<StoredEvent>(STORE, id)))),
+          ...(await Promise.all(addresses.map((a) => db.getAllFromIndex<StoredEvent>(STORE, 'byAddress', { query: a })))).flat(),
+        ];
+        for (const e of targets) if (e && isDeletedBy(e, request)) deleted.push(e.id);
+      }
+      const kept = [...plain, ...winners].filter((e) => !requests.some((r) => isDeletedBy(e, r)));
+
+      await db.runTransaction(STORE, 'readwrite', (tx) => {
+        const store = tx.objectStore(STORE);
+        for (const id of [...superseded, ...deleted]) store.delete(id);
+        for (const event of kept) store.put(toStored(event));
+      });
+
+      await evictOverflow();
+      for (const w of waiters) w.resolve();
+    } catch (err) {
+      for (const w of waiters) w.reject(err);
+    }
+  }
+
+  async function evictOverflow(): Promise<void> {
+    const excess = (await db.count(STORE)) - maxEvents;
+    if (excess <= 0) return;
+    const oldest = await db.getAllFromIndex<StoredEvent>(STORE, 'byCreatedAt', { count: excess });
+    await db.runTransaction(STORE, 'readwrite', (tx) => {
+      const store = tx.objectStore(STORE);
+      for (const e of oldest) store.delete(e.id);
+    });
+  }
+
+  async function remove(ids: string[]): Promise<void> {
+    await db.runTransaction(STORE, 'readwrite', (tx) => {
+      const store = tx.objectStore(STORE);
+      for (const id of ids) store.delete(id);
+    });
+  }
+
+  /** Candidate events for a filter, read through its most selective index. */
+  async function candidates(filter: NostrFilter): Promise<StoredEvent[]> {
+    if (filter.ids?.length) {
+      const found = await Promise.all(filter.ids.map((id) => db.get<StoredEvent>(STORE, id)));
+      return found.filter((e): e is StoredEvent => e !== undefined);
+    }
+    if (filter.authors?.length) {
+      const lists = await Promise.all(
+        filter.authors.map((pk) => db.getAllFromIndex<StoredEvent>(STORE, 'byAuthor', { query: pk })),
+      );
+      return lists.flat();
+    }
+    const tagKey = Object.keys(filter).find((k) => k[0] === '#' && Array.isArray(filter[k as `#${string}`]));
+    if (tagKey) {
+      const letter = tagKey.slice(1);
+      const values = (filter[tagKey as `#${string}`] as (string | number)[]).map(String);
+      const lists = await Promise.all(
+        values.map((v) => db.getAllFromIndex<StoredEvent>(STORE, 'byTag', { query: `${letter}:${v}` })),
+      );
+      return lists.flat();
+    }
+    if (filter.kinds?.length) {
+      const lists = await Promise.all(
+        filter.kinds.map((kind) => db.getAllFromIndex<StoredEvent>(STORE, 'byKind', { query: kind })),
+      );
+      return lists.flat();
+    }
+    const range =
+      filter.since != null && filter.until != null
+        ? IDBKeyRange.bound(filter.since, filter.until)
+        : filter.since != null
+          ? IDBKeyRange.lowerBound(filter.since)
+          : filter.until != null
+            ? IDBKeyRange.upperBound(filter.until)
+            : undefined;
+    return db.getAllFromIndex<StoredEvent>(STORE, 'byCreatedAt', { query: range });
+  }
+
+  return {
+    async query(filter) {
+      const now = Math.floor(Date.now() / 1000);
+      const seen = new Set<string>();
+      const expired: string[] = [];
+      const matches: NostrEvent[] = [];
+
+      for (const stored of await candidates(filter)) {
+        if (seen.has(stored.id)) continue;
+        seen.add(stored.id);
+        const event = fromStored(stored);
+        if (isExpired(event, now)) {
+          expired.push(event.id);
+          continue;
+        }
+        if (matchesFilter(event, filter)) matches.push(event);
+      }
+
+      // Lazily purge what expired since it was stored.
+      if (expired.length > 0) void remove(expired).catch(() => {});
+
+      matches.sort((a, b) => b.created_at - a.created_at || a.id.localeCompare(b.id));
+      return filter.limit != null ? matches.slice(0, filter.limit) : matches;
+    },
+    save(event) {
+      if (isExpired(event)) return Promise.resolve();
+      return new Promise((resolve, reject) => {
+        writeQueue.push(event);
+        writeWaiters.push({ resolve, reject });
+        writeTimer ??= setTimeout(() => void flushWrites(), WRITE_BATCH_DELAY_MS);
+      });
+    },
+    async get(id) {
+      const stored = await db.get<StoredEvent>(STORE, id);
+      return stored ? fromStored(stored) : undefined;
+    },
+    remove,
+    async clear() {
+      await db.clear(STORE);
+    },
+    close() {
+      if (writeTimer) clearTimeout(writeTimer);
+      writeTimer = null;
+      // Writes still waiting for their batch are dropped, not left hanging.
+      const waiters = writeWaiters;
+      writeQueue = [];
+      writeWaiters = [];
+      for (const w of waiters) w.reject(new IdbError('Event store closed before the write was flushed'));
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * nostr/giftWrap.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * NIP-59 seal + gift wrap, as used by NIP-17 private messages.
+ *
+ * A message travels as three nested events:
+ *
+ *   rumor     kind 14 (or any kind), unsigned — the actual message, with
+ *             the sender's pubkey, real timestamp and tags
+ *   seal      kind 13, signed by the sender, content = NIP-44(rumor)
+ *             for the recipient, no tags, jittered timestamp
+ *   gift wrap kind 1059, signed by a throwaway key, content =
+ *             NIP-44(seal) for the recipient, only a `p` tag (plus
+ *             `expiration`, if the rumor has one), jittered timestamp
+ *
+ * Relays see neither the sender nor the real time — only that someone
+ * sent *something* to the `p`-tagged recipient. Sealing goes through the
+ * sender's Signer, so extension and bunker signers work unchanged.
+ *
+ * This module is an internal part of nostr.ts — import it from there.
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import {
+  finalizeEvent,
+  generateSecretKey,
+  getEventHash,
+  verifyEvent,
+  type Event as NostrEvent,
+  type UnsignedEvent,
+} from 'nostr-tools/pure';
+import { v2 as nip44 } from 'nostr-tools/nip44';
+import type { Signer } from './signer';
+
+export const SEAL_KIND = 13;
+export const GIFT_WRAP_KIND = 1059;
+/** NIP-17 chat message kind, the default rumor kind. */
+export const PRIVATE_MESSAGE_KIND = 14;
+/** NIP-59: seal and wrap timestamps are pushed up to two days into the past. */
+export const GIFT_WRAP_JITTER_SECS = 2 * 24 * 60 * 60;
+
+/** The innermost, unsigned message. `id` is its NIP-01 hash; there is no `sig`. */
+export interface Rumor extends UnsignedEvent {
+  id: string;
+}
+
+function jitteredNow(): number {
+  return Math.floor(Date.now() / 1000) - Math.floor(Math.random() * GIFT_WRAP_JITTER_SECS);
+}
+
+/** Build the rumor for a message from `senderPubkey`. */
+export function createRumor(
+  senderPubkey: string,
+  template: { kind: number; content: string; tags: string[][]; created_at?: number },
+): Rumor {
+  const unsigned: UnsignedEvent = {
+    pubkey: senderPubkey,
+    kind: template.kind,
+    content: template.content,
+    tags: template.tags,
+    created_at: template.created_at ?? Math.floor(Date.now() / 1000),
+  };
+  return { ...unsigned, id: getEventHash(unsigned) };
+}
+
+/** Seal `rumor` for `recipientPubkey` (signed by `signer`) and gift-wrap it under a fresh key. */
+export async function wrapRumor(signer: Signer, rumor: Rumor, recipientPubkey: string): Promise<NostrEvent> {
+  const seal = await signer.signEvent({
+    kind: SEAL_KIND,
+    created_at: jitteredNow(),
+    tags: [],
+    content: await signer.nip44Encrypt(recipientPubkey, JSON.stringify(rumor)),
+  });
+
+  const wrapperKey = generateSecretKey();
+  const expiration = rumor.tags.find((t) => t[0] === 'expiration');
+  return finalizeEvent(
+    {
+      kind: GIFT_WRAP_KIND,
+      created_at: jitteredNow(),
+      tags: expiration ? [['p', recipientPubkey], expiration] : [['p', recipientPubkey]],
+      content: nip44.encrypt(JSON.stringify(seal), nip44.utils.getConversationKey(wrapperKey, recipientPubkey)),
+    },
+    wrapperKey,
+  );
+}
+
+/**
+ * Open a gift wrap addressed to the signer's key. Returns the rumor, or
+ * null if the wrap isn't for us, is malformed, or its rumor claims a
+ * different author than the one who signed the seal (impersonation).
+ */
+export async function unwrapGiftWrap(signer: Signer, wrap: NostrEvent): Promise<Rumor | null> {
+  if (wrap.kind !== GIFT_WRAP_KIND) return null;
+  try {
+    const seal = JSON.parse(await signer.nip44Decrypt(wrap.pubkey, wrap.content)) as NostrEvent;
+    if (seal.kind !== SEAL_KIND || !verifyEvent(seal)) return null;
+
+    const rumor = JSON.parse(await signer.nip44Decrypt(seal.pubkey, seal.content)) as Rumor;
+    if (rumor.pubkey !== seal.pubkey) return null;
+    return { ...rumor, id: getEventHash(rumor) };
+  } catch {
+    return null;
+  }
+}
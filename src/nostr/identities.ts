@@ -0,0 +1,238 @@
+/**
+ * nostr/identities.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * Several identities side by side — e.g. a personal one and a "driver"
+ * or organisation one — with one of them active at a time.
+ *
+ * A NostrClient speaks for a single key for its whole lifetime, so the
+ * manager keeps one client per unlocked identity rather than swapping
+ * keys under a running client. Each has its own subscriptions, its own
+ * IndexedDB event store, replay store and outbox (databases suffixed
+ * with the pubkey, so one identity's listings never show up as another's)
+ * and its own drafts. Switching only changes which one is `active`:
+ * nothing is reloaded, and the inactive identities stay connected so
+ * their subscriptions (DMs, ride requests) keep arriving until locked.
+ *
+ * Keys come from the keystore and are unlocked once per session.
+ * Imported directly, not through nostr.ts, which stays free of idb.ts:
+ *
+ *   const identities = await openIdentityManager({ keystore: await openKeystore() });
+ *   await identities.unlock(personalPubkey, passphrase);
+ *   await identities.unlock(driverPubkey, passphrase);
+ *   identities.switchTo(driverPubkey);
+ *   identities.active.subscribe((identity) => ...); // identity.client, identity.label
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import { IdbDatabase } from '../idb';
+import { createStore, type Store } from '../store';
+import { NostrClient, shortNpub, type NostrClientOptions, type SecretKeySigner } from '../nostr';
+import { openEventStore, type EventStore } from './eventStore';
+import { KeystoreError, type Keystore } from './keystore';
+import { openOutbox, type Outbox } from './outbox';
+import { openReplayStore, type ReplayStore } from './replayStore';
+
+const DRAFTS_STORE = 'drafts';
+
+export interface Identity {
+  pubkey: string;
+  /** The identity's label, or its short npub when it has none. */
+  label: string;
+  client: NostrClient;
+  /**
+   * Unfinished input (form selections, unsent listings) keyed by whatever
+   * the UI likes. Kept per identity and, with `persist`, across reloads.
+   */
+  drafts: Store<Record<string, unknown>>;
+}
+
+/** A stored identity as the account switcher lists it. */
+export interface IdentitySummary {
+  pubkey: string;
+  label: string;
+  unlocked: boolean;
+  active: boolean;
+}
+
+export interface IdentityManagerOptions {
+  keystore: Keystore;
+  /**
+   * Options for every identity's NostrClient. The manager adds each
+   * identity's own eventStore, replayStore and outbox.
+   */
+  clientOptions?: Omit<NostrClientOptions, 'eventStore' | 'replayStore' | 'outbox'>;
+  /** Give each identity IndexedDB stores of its own, and keep drafts. Defaults to true. */
+  persist?: boolean;
+}
+
+export interface IdentityManager {
+  /** The identity the UI acts as; null until one is unlocked. */
+  readonly active: Store<Identity | null>;
+  /** Every stored identity, oldest first, with whether it's unlocked/active. */
+  readonly identities: Store<IdentitySummary[]>;
+  /** Generate and store a new identity, unlock it and make it active. */
+  create(passphrase: string, label?: string): Promise<Identity>;
+  /** Store an existing key (see Keystore.import), unlock it and make it active. */
+  import(secret: string, passphrase: string, label?: string): Promise<Identity>;
+  /**
+   * Unlock a stored identity. It becomes active only if none is yet. The
+   * passphrase is always checked, even when the identity is already
+   * unlocked: a wrong one throws KeystoreError. Use switchTo() to change
+   * to an unlocked identity without asking for it again.
+   */
+  unlock(pubkey: string, passphrase: string): Promise<Identity>;
+  /** Make an unlocked identity the active one, without a passphrase. Throws KeystoreError if it's locked. */
+  switchTo(pubkey: string): Identity;
+  setLabel(pubkey: string, label: string): Promise<void>;
+  /**
+   * Disconnect an identity and forget its key for this session. If it was
+   * active, the next unlocked identity (if any) takes over.
+   */
+  lock(pubkey: string): void;
+  /** Lock an identity and delete it from the keystore. Its databases are kept. */
+  remove(pubkey: string): Promise<void>;
+  /** Lock every identity and close the drafts database. The keystore stays open. */
+  close(): void;
+}
+
+interface OpenIdentity extends Identity {
+  stores: (EventStore | ReplayStore | Outbox)[];
+  stopSavingDrafts: () => void;
+}
+
+export async function openIdentityManager(options: IdentityManagerOptions): Promise<IdentityManager> {
+  const { keystore } = options;
+  const persist = options.persist ?? true;
+
+  const draftsDb = persist
+    ? await IdbDatabase.open({ name: 'nostr-drafts', version: 1, stores: [{ name: DRAFTS_STORE, keyPath: 'pubkey' }] })
+    : null;
+
+  const open = new Map<string, OpenIdentity>(); // pubkey -> unlocked identity
+  const opening = new Map<string, Promise<OpenIdentity>>();
+  const active = createStore<Identity | null>(null);
+  const identities = createStore<IdentitySummary[]>([]);
+
+  async function refresh(): Promise<void> {
+    const current = active.get()?.pubkey;
+    identities.set(
+      (await keystore.list()).map((stored) => ({
+        pubkey: stored.pubkey,
+        label: stored.label ?? shortNpub(stored.pubkey),
+        unlocked: open.has(stored.pubkey),
+        active: stored.pubkey === current,
+      })),
+    );
+  }
+
+  async function openIdentity(signer: SecretKeySigner): Promise<OpenIdentity> {
+    const { pubkey } = signer;
+    const existing = open.get(pubkey);
+    if (existing) return existing;
+    const pending = opening.get(pubkey);
+    if (pending) return pending;
+
+    const promise = (async () => {
+      const [eventStore, replayStore, outbox] = persist
+        ? await Promise.all([
+            openEventStore({ dbName: `nostr-events-${pubkey}` }),
+            openReplayStore({ dbName: `nostr-replay-${pubkey}` }),
+            openOutbox({ dbName: `nostr-outbox-${pubkey}` }),
+          ])
+        : [undefined, undefined, undefined];
+      const client = new NostrClient(signer, { ...options.clientOptions, eventStore, replayStore, outbox });
+
+      const savedDrafts = await draftsDb?.get<{ pubkey: string; drafts: Record<string, unknown> }>(DRAFTS_STORE, pubkey);
+      const drafts = createStore<Record<string, unknown>>(savedDrafts?.drafts ?? {});
+      const stopSavingDrafts = draftsDb
+        ? drafts.subscribe((value) => void draftsDb.set(DRAFTS_STORE, { pubkey, drafts: value }))
+        : () => {};
+
+      const stored = (await keystore.list()).find((s) => s.pubkey === pubkey);
+      const identity: OpenIdentity = {
+        pubkey,
+        label: stored?.label ?? shortNpub(pubkey),
+        client,
+        drafts,
+        stores: [eventStore, replayStore, outbox].filter((s) => s !== undefined),
+        stopSavingDrafts,
+      };
+      open.set(pubkey, identity);
+      client.connect();
+      return identity;
+    })().finally(() => opening.delete(pubkey));
+    opening.set(pubkey, promise);
+    return promise;
+  }
+
+  function activate(identity: OpenIdentity): Identity {
+    if (active.get()?.pubkey === identity.pubkey) return identity;
+    active.set(identity);
+    void refresh();
+    return identity;
+  }
+
+  function lock(pubkey: string): void {
+    const identity = open.get(pubkey);
+    keystore.lock(pubkey);
+    if (!identity) return;
+    open.delete(pubkey);
+    identity.client.disconnect();
+    identity.stopSavingDrafts();
+    for (const store of identity.stores) store.close();
+    if (active.get()?.pubkey === pubkey) {
+      const next = open.values().next().value;
+      active.set(null);
+      if (next) activate(next);
+    }
+    void refresh();
+  }
+
+  await refresh();
+
+  return {
+    active,
+    identities,
+    async create(passphrase, label) {
+      const signer = await keystore.create(passphrase);
+      if (label) await keystore.setLabel(signer.pubkey, label);
+      return activate(await openIdentity(signer));
+    },
+    async import(secret, passphrase, label) {
+      const signer = await keystore.import(secret, passphrase);
+      if (label) await keystore.setLabel(signer.pubkey, label);
+      return activate(await openIdentity(signer));
+    },
+    async unlock(pubkey, passphrase) {
+      const identity = await openIdentity(await keystore.unlock(pubkey, passphrase));
+      if (!active.get()) activate(identity);
+      else void refresh();
+      return identity;
+    },
+    switchTo(pubkey) {
+      const identity = open.get(pubkey);
+      if (!identity) throw new KeystoreError(`Identity ${shortNpub(pubkey)} is locked`);
+      return activate(identity);
+    },
+    async setLabel(pubkey, label) {
+      await keystore.setLabel(pubkey, label);
+      const identity = open.get(pubkey);
+      if (identity) {
+        const labelled = { ...identity, label: label.trim() || shortNpub(pubkey) };
+        open.set(pubkey, labelled);
+        if (active.get()?.pubkey === pubkey) active.set(labelled);
+      }
+      await refresh();
+    },
+    lock,
+    async remove(pubkey) {
+      lock(pubkey);
+      await keystore.remove(pubkey);
+      await refresh();
+    },
+    close() {
+      for (const pubkey of [...open.keys()]) lock(pubkey);
+      draftsDb?.close();
+    },
+  };
+}
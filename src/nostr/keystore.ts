@@ -0,0 +1,235 @@
+/**
+ * nostr/keystore.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * IndexedDB keystore for the user's Nostr identities.
+ *
+ * Secret keys are only ever persisted as NIP-49 `ncryptsec` strings —
+ * scrypt-derived key, XChaCha20-Poly1305 — never in the clear. A stored
+ * identity is unlocked with its passphrase once per session: unlock()
+ * decrypts it into an in-memory SecretKeySigner, ready to hand to
+ * NostrClient, and lock() (or a reload) forgets it again.
+ *
+ * Each record notes, per NIP-49's key-security byte, whether the key is
+ * known to have been handled insecurely: keys generated here are not,
+ * keys imported from a plaintext nsec/hex are.
+ *
+ * Imported directly, not through nostr.ts, which stays free of idb.ts:
+ *
+ *   const keystore = await openKeystore();
+ *   const signer = (await keystore.list()).length
+ *     ? await keystore.unlock(pubkey, passphrase)
+ *     : await keystore.create(passphrase);
+ *   const client = new NostrClient(signer);
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import { decrypt, encrypt } from 'nostr-tools/nip49';
+import { IdbDatabase } from '../idb';
+import {
+  createSecretKeySigner,
+  decodeEntity,
+  derivePublicKey,
+  generateKeypair,
+  nsecEncode,
+  shortNpub,
+  type SecretKeySigner,
+} from '../nostr';
+
+const STORE = 'keys';
+/** NIP-49's recommended scrypt cost: 2^16 rounds, ~64 MiB, ~100ms-1s. */
+const DEFAULT_LOG_N = 16;
+
+/** NIP-49 key-security byte. */
+const KEY_HANDLED_INSECURELY = 0x00;
+const KEY_NOT_KNOWN_INSECURE = 0x01;
+/** Where it sits in an ncryptsec's payload: after version (1), logN (1), salt (16) and nonce (24). */
+const KEY_SECURITY_OFFSET = 42;
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+export interface StoredIdentity {
+  pubkey: string;
+  ncryptsec: string;
+  /** Unix ms the identity was added. */
+  createdAt: number;
+  /** True if the secret key was ever outside an ncryptsec (imported as nsec/hex). */
+  handledInsecurely: boolean;
+  /** The user's own name for this identity, e.g. 'Personal' or 'Driver'. */
+  label?: string;
+}
+
+export interface KeystoreOptions {
+  /** IndexedDB database name. Defaults to 'nostr-keystore'. */
+  dbName?: string;
+  /** scrypt cost exponent for new ncryptsecs. Defaults to 16. */
+  logN?: number;
+}
+
+export interface Keystore {
+  /** Every stored identity, oldest first. */
+  list(): Promise<StoredIdentity[]>;
+  /** Generate a new identity, store it under `passphrase`, and return it unlocked. */
+  create(passphrase: string): Promise<SecretKeySigner>;
+  /**
+   * Store an existing key — an nsec, 64-char hex, or an ncryptsec (which
+   * `passphrase` must open; it is kept as-is) — and return it unlocked.
+   * Importing a key that's already stored replaces its record.
+   */
+  import(secret: string, passphrase: string): Promise<SecretKeySigner>;
+  /** Decrypt a stored identity for this session. Throws KeystoreError on a wrong passphrase. */
+  unlock(pubkey: string, passphrase: string): Promise<SecretKeySigner>;
+  /** The unlocked signer for `pubkey`, if unlock() was called this session. */
+  getUnlocked(pubkey: string): SecretKeySigner | null;
+  /** Forget an unlocked key (or all of them); the stored ncryptsec stays. */
+  lock(pubkey?: string): void;
+  /** The stored ncryptsec, for backup. */
+  exportNcryptsec(pubkey: string): Promise<string>;
+  /** The plaintext nsec; requires the passphrase again. Marks the key as handled insecurely. */
+  exportNsec(pubkey: string, passphrase: string): Promise<string>;
+  /** Re-encrypt a stored identity under a new passphrase. */
+  changePassphrase(pubkey: string, oldPassphrase: string, newPassphrase: string): Promise<void>;
+  /** Name a stored identity ('' removes the label). */
+  setLabel(pubkey: string, label: string): Promise<void>;
+  /** Delete an identity from the store (and lock it). */
+  remove(pubkey: string): Promise<void>;
+  close(): void;
+}
+
+/** Raised for a wrong passphrase, an unknown identity or an unreadable key. */
+export class KeystoreError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'KeystoreError';
+  }
+}
+
+/** Parse an nsec or hex secret key. */
+function parseSecretKey(secret: string): Uint8Array {
+  if (/^[0-9a-f]{64}$/i.test(secret)) {
+    return Uint8Array.from(secret.match(/../g)!.map((byte) => parseInt(byte, 16)));
+  }
+  const decoded = decodeEntity(secret);
+  if (decoded?.type === 'nsec') return decoded.secretKey;
+  throw new KeystoreError('Not a valid nsec, ncryptsec or hex secret key');
+}
+
+/**
+ * The key-security byte of an ncryptsec that decrypt() already accepted
+ * (so its checksum and layout are valid). nostr-tools only returns the
+ * key, so the byte is read straight from the bech32 data part.
+ */
+function readKeySecurityByte(ncryptsec: string): number {
+  const data = ncryptsec.toLowerCase().slice(ncryptsec.lastIndexOf('1') + 1, -6); // drop prefix and checksum
+  let byte = 0;
+  for (let bit = KEY_SECURITY_OFFSET * 8; bit < (KEY_SECURITY_OFFSET + 1) * 8; bit++) {
+    const word = BECH32_CHARSET.indexOf(data[Math.floor(bit / 5)]);
+    byte = (byte << 1) | ((word >> (4 - (bit % 5))) & 1);
+  }
+  return byte;
+}
+
+export async function openKeystore(options: KeystoreOptions = {}): Promise<Keystore> {
+  const db = await IdbDatabase.open({
+    name: options.dbName ?? 'nostr-keystore',
+    version: 1,
+    stores: [{ name: STORE, keyPath: 'pubkey' }],
+  });
+
+  const logN = options.logN ?? DEFAULT_LOG_N;
+  const unlocked = new Map<string, SecretKeySigner>(); // pubkey -> this session's signer
+
+  async function record(pubkey: string): Promise<StoredIdentity> {
+    const stored = await db.get<StoredIdentity>(STORE, pubkey);
+    if (!stored) throw new KeystoreError(`No stored identity for ${shortNpub(pubkey)}`);
+    return stored;
+  }
+
+  function decryptKey(ncryptsec: string, passphrase: string): Uint8Array {
+    try {
+      return decrypt(ncryptsec, passphrase);
+    } catch (err) {
+      throw new KeystoreError('Wrong passphrase or corrupt ncryptsec', err);
+    }
+  }
+
+  function encryptKey(secretKey: Uint8Array, passphrase: string, handledInsecurely: boolean): string {
+    return encrypt(secretKey, passphrase, logN, handledInsecurely ? KEY_HANDLED_INSECURELY : KEY_NOT_KNOWN_INSECURE);
+  }
+
+  async function save(secretKey: Uint8Array, ncryptsec: string, handledInsecurely: boolean): Promise<SecretKeySigner> {
+    const signer = createSecretKeySigner(secretKey);
+    const existing = await db.get<StoredIdentity>(STORE, signer.pubkey);
+    await db.set<StoredIdentity>(STORE, {
+      pubkey: signer.pubkey,
+      ncryptsec,
+      createdAt: existing?.createdAt ?? Date.now(),
+      handledInsecurely: handledInsecurely || !!existing?.handledInsecurely,
+      label: existing?.label,
+    });
+    unlocked.set(signer.pubkey, signer);
+    return signer;
+  }
+
+  return {
+    async list() {
+      const all = await db.getAll<StoredIdentity>(STORE);
+      return all.sort((a, b) => a.createdAt - b.createdAt);
+    },
+    async create(passphrase) {
+      const { secretKey } = generateKeypair();
+      return save(secretKey, encryptKey(secretKey, passphrase, false), false);
+    },
+    async import(secret, passphrase) {
+      const trimmed = secret.trim();
+      if (trimmed.startsWith('ncryptsec1')) {
+        const secretKey = decryptKey(trimmed, passphrase);
+        return save(secretKey, trimmed, readKeySecurityByte(trimmed) === KEY_HANDLED_INSECURELY);
+      }
+      const secretKey = parseSecretKey(trimmed);
+      return save(secretKey, encryptKey(secretKey, passphrase, true), true);
+    },
+    async unlock(pubkey, passphrase) {
+      const stored = await record(pubkey);
+      const secretKey = decryptKey(stored.ncryptsec, passphrase);
+      if (derivePublicKey(secretKey) !== pubkey) throw new KeystoreError('Stored key does not match its public key');
+      const signer = createSecretKeySigner(secretKey);
+      unlocked.set(pubkey, signer);
+      return signer;
+    },
+    getUnlocked(pubkey) {
+      return unlocked.get(pubkey) ?? null;
+    },
+    lock(pubkey) {
+      if (pubkey) unlocked.delete(pubkey);
+      else unlocked.clear();
+    },
+    async exportNcryptsec(pubkey) {
+      return (await record(pubkey)).ncryptsec;
+    },
+    async exportNsec(pubkey, passphrase) {
+      const stored = await record(pubkey);
+      const secretKey = decryptKey(stored.ncryptsec, passphrase);
+      if (!stored.handledInsecurely) await db.set<StoredIdentity>(STORE, { ...stored, handledInsecurely: true });
+      return nsecEncode(secretKey);
+    },
+    async changePassphrase(pubkey, oldPassphrase, newPassphrase) {
+      const stored = await record(pubkey);
+      const secretKey = decryptKey(stored.ncryptsec, oldPassphrase);
+      await db.set<StoredIdentity>(STORE, {
+        ...stored,
+        ncryptsec: encryptKey(secretKey, newPassphrase, stored.handledInsecurely),
+      });
+    },
+    async setLabel(pubkey, label) {
+      const stored = await record(pubkey);
+      await db.set<StoredIdentity>(STORE, { ...stored, label: label.trim() || undefined });
+    },
+    async remove(pubkey) {
+      unlocked.delete(pubkey);
+      await db.delete(STORE, pubkey);
+    },
+    close() {
+      unlocked.clear();
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,324 @@
+/**
+ * nostr/mockRelay.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * In-process NIP-01 relay for development and tests.
+ *
+ * A MockRelay speaks the relay side of NIP-01 (EVENT/REQ/CLOSE, answering
+ * with EVENT/EOSE/OK/CLOSED) over fake sockets, keeps events in memory
+ * with replaceable-event, NIP-09 deletion and NIP-40 expiration
+ * semantics, and can be told
+ * to misbehave: drop connections, delay or withhold EOSE, reject or
+ * ignore publishes, send duplicates or events with broken signatures.
+ * That makes query() statuses (`synced`/`partial`/`failed`) and
+ * publishReplaceableWithVerify() outcomes reproducible without public
+ * relays.
+ *
+ * Relays are addressed with `mock://` URLs and reached through the
+ * client's webSocketFactory. Unknown mock:// URLs get a fresh, well-
+ * behaved relay on first connect. Imported directly, not through
+ * nostr.ts, so it never ends up in a production bundle by accident:
+ *
+ *   const relay = createMockRelay('mock://a');
+ *   const client = new NostrClient(sk, {
+ *     relays: ['mock://a', 'mock://b'],
+ *     webSocketFactory: createMockWebSocketFactory(),
+ *   });
+ *   relay.setFaults({ omitEose: true }); // next query() is 'partial'
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import {
+  getExpiration,
+  getReplaceableAddress,
+  isDeletedBy,
+  matchesFilter,
+  verify,
+  type NostrEvent,
+  type NostrFilter,
+  type RelaySocket,
+  type WebSocketFactory,
+} from '../nostr';
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+/** Misbehaviour to inject. Every field is optional; omitted = well-behaved. */
+export interface MockRelayFaults {
+  /** New connections fail (close without ever opening). */
+  refuseConnections?: boolean;
+  /** Delay applied to every message the relay sends, in ms. Defaults to 0. */
+  latencyMs?: number;
+  /** Extra delay before EOSE, after the stored events, in ms. */
+  eoseDelayMs?: number;
+  /** Never send EOSE. */
+  omitEose?: boolean;
+  /** Answer every REQ with CLOSED and this reason instead of serving it. */
+  closeSubscriptions?: string;
+  /** Reject every EVENT with OK false and this reason (e.g. 'blocked: test'). */
+  rejectPublishes?: string;
+  /** Store published events but never answer with OK. */
+  omitOk?: boolean;
+  /** Send every event twice. */
+  duplicateEvents?: boolean;
+  /** Send events with a corrupted signature. */
+  corruptSignatures?: boolean;
+}
+
+export interface MockRelay {
+  readonly url: string;
+  /** Everything currently stored, newest first. */
+  readonly events: NostrEvent[];
+  /** Number of open connections. */
+  readonly connections: number;
+  /** Replace the fault configuration (pass {} to behave again). */
+  setFaults(faults: MockRelayFaults): void;
+  /** Close every open connection, as if the relay went away. */
+  dropConnections(): void;
+  /**
+   * Store an event as if it had been published (no signature check) and
+   * push it to matching live subscriptions.
+   */
+  seed(event: NostrEvent): void;
+  /** Send an event to matching live subscriptions as-is, without storing or checking it. */
+  inject(event: NostrEvent): void;
+  /** Drop all stored events and faults. */
+  reset(): void;
+}
+
+interface MockConnection {
+  socket: MockSocket;
+  subs: Map<string, NostrFilter[]>;
+}
+
+const registry = new Map<string, MockRelayImpl>();
+
+class MockSocket implements RelaySocket {
+  readyState = CONNECTING;
+  onopen: ((event: unknown) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(private readonly relay: MockRelayImpl) {
+    setTimeout(() => relay.accept(this), relay.faults.latencyMs ?? 0);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== OPEN) throw new Error('MockSocket is not open');
+    setTimeout(() => this.relay.receive(this, data), this.relay.faults.latencyMs ?? 0);
+  }
+
+  close(): void {
+    if (this.readyState === CLOSED) return;
+    this.readyState = CLOSED;
+    this.relay.disconnect(this);
+    setTimeout(() => this.onclose?.({}), 0);
+  }
+
+  /** Relay -> client. */
+  deliver(message: unknown[]): void {
+    if (this.readyState !== OPEN) return;
+    const data = JSON.stringify(message);
+    setTimeout(() => {
+      if (this.readyState === OPEN) this.onmessage?.({ data });
+    }, this.relay.faults.latencyMs ?? 0);
+  }
+}
+
+class MockRelayImpl implements MockRelay {
+  faults: MockRelayFaults = {};
+  private stored = new Map<string, NostrEvent>(); // id -> event
+  private conns = new Map<MockSocket, MockConnection>();
+
+  constructor(readonly url: string) {}
+
+  get events(): NostrEvent[] {
+    return [...this.stored.values()].sort((a, b) => b.created_at - a.created_at);
+  }
+
+  get connections(): number {
+    return this.conns.size;
+  }
+
+  setFaults(faults: MockRelayFaults): void {
+    this.faults = { ...faults };
+  }
+
+  dropConnections(): void {
+    for (const socket of [...this.conns.keys()]) socket.close();
+  }
+
+  seed(event: NostrEvent): void {
+    if (this.store(event) === 'stored') this.broadcast(event);
+  }
+
+  inject(event: NostrEvent): void {
+    this.broadcast(event);
+  }
+
+  reset(): void {
+    this.stored.clear();
+    this.faults = {};
+  }
+
+  accept(socket: MockSocket): void {
+    if (socket.readyState !== CONNECTING) return;
+    if (this.faults.refuseConnections) {
+      socket.readyState = CLOSED;
+      socket.onerror?.({});
+      socket.onclose?.({});
+      return;
+    }
+    socket.readyState = OPEN;
+    this.conns.set(socket, { socket, subs: new Map() });
+    socket.onopen?.({});
+  }
+
+  disconnect(socket: MockSocket): void {
+    this.conns.delete(socket);
+  }
+
+  receive(socket: MockSocket, data: string): void {
+    const conn = this.conns.get(socket);
+    if (!conn) return;
+
+    let message: unknown;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      socket.deliver(['NOTICE', 'error: could not parse message']);
+      return;
+    }
+    if (!Array.isArray(message)) return;
+
+    const [type, ...args] = message as [string, ...unknown[]];
+    if (type === 'EVENT') this.handleEvent(socket, args[0] as NostrEvent);
+    else if (type === 'REQ') this.handleReq(conn, String(args[0]), args.slice(1) as NostrFilter[]);
+    else if (type === 'CLOSE') conn.subs.delete(String(args[0]));
+    else if (type === 'NEG-OPEN') socket.deliver(['NEG-ERR', String(args[0]), 'error: negentropy not supported']);
+    else socket.deliver(['NOTICE', `error: unsupported message type ${type}`]);
+  }
+
+  private handleEvent(socket: MockSocket, event: NostrEvent): void {
+    const ok = (accepted: boolean, reason: string) => {
+      if (!this.faults.omitOk) socket.deliver(['OK', event?.id ?? '', accepted, reason]);
+    };
+
+    if (!event || typeof event !== 'object' || !verify(event)) return ok(false, 'invalid: bad signature');
+    if (this.faults.rejectPublishes) return ok(false, this.faults.rejectPublishes);
+
+    const outcome = this.store(event);
+    if (outcome === 'expired') return ok(false, 'invalid: event is expired');
+    if (outcome === 'deleted') return ok(false, 'blocked: event was deleted');
+    if (outcome === 'duplicate') return ok(true, 'duplicate: already have this event');
+    if (outcome === 'superseded') return ok(true, 'duplicate: have a newer version');
+    ok(true, '');
+    this.broadcast(event);
+  }
+
+  /** Apply NIP-01/NIP-09/NIP-40 storage rules. Ephemeral events pass as 'stored' without being kept. */
+  private store(event: NostrEvent): 'stored' | 'duplicate' | 'superseded' | 'expired' | 'deleted' {
+    const expiration = getExpiration(event);
+    if (expiration !== undefined && expiration <= Math.floor(Date.now() / 1000)) return 'expired';
+    if (this.stored.has(event.id)) return 'duplicate';
+    if (event.kind >= 20000 && event.kind < 30000) return 'stored';
+    for (const other of this.stored.values()) if (isDeletedBy(event, other)) return 'deleted';
+    for (const other of [...this.stored.values()]) if (isDeletedBy(other, event)) this.stored.delete(other.id);
+
+    const address = getReplaceableAddress(event);
+    if (address) {
+      for (const other of this.stored.values()) {
+        if (getReplaceableAddress(other) !== address) continue;
+        const newer =
+          other.created_at > event.created_at || (other.created_at === event.created_at && other.id < event.id);
+        if (newer) return 'superseded';
+        this.stored.delete(other.id);
+      }
+    }
+    this.stored.set(event.id, event);
+    return 'stored';
+  }
+
+  private handleReq(conn: MockConnection, subId: string, filters: NostrFilter[]): void {
+    if (this.faults.closeSubscriptions) {
+      conn.socket.deliver(['CLOSED', subId, this.faults.closeSubscriptions]);
+      return;
+    }
+    conn.subs.set(subId, filters);
+
+    const now = Math.floor(Date.now() / 1000);
+    const results = new Map<string, NostrEvent>();
+    for (const filter of filters) {
+      const matches = this.events.filter((e) => {
+        const expiration = getExpiration(e);
+        return (expiration === undefined || expiration > now) && matchesFilter(e, filter);
+      });
+      for (const e of filter.limit != null ? matches.slice(0, filter.limit) : matches) results.set(e.id, e);
+    }
+    for (const event of results.values()) this.send(conn.socket, subId, event);
+
+    if (this.faults.omitEose) return;
+    const sendEose = () => conn.socket.deliver(['EOSE', subId]);
+    if (this.faults.eoseDelayMs) setTimeout(sendEose, this.faults.eoseDelayMs);
+    else sendEose();
+  }
+
+  private broadcast(event: NostrEvent): void {
+    for (const conn of this.conns.values()) {
+      for (const [subId, filters] of conn.subs) {
+        if (filters.some((f) => matchesFilter(event, f))) this.send(conn.socket, subId, event);
+      }
+    }
+  }
+
+  private send(socket: MockSocket, subId: string, event: NostrEvent): void {
+    const outgoing = this.faults.corruptSignatures ? { ...event, sig: corrupt(event.sig) } : event;
+    socket.deliver(['EVENT', subId, outgoing]);
+    if (this.faults.duplicateEvents) socket.deliver(['EVENT', subId, outgoing]);
+  }
+}
+
+/** Flip the last hex digit so the signature no longer verifies. */
+function corrupt(sig: string): string {
+  const last = sig.slice(-1);
+  return sig.slice(0, -1) + (last === '0' ? '1' : '0');
+}
+
+/**
+ * Create (or fetch, if it exists) the mock relay at `url`. Relays live
+ * until removeMockRelay(); state is shared by every client connecting
+ * to the same URL.
+ */
+export function createMockRelay(url = 'mock://relay', faults: MockRelayFaults = {}): MockRelay {
+  let relay = registry.get(url);
+  if (!relay) {
+    relay = new MockRelayImpl(url);
+    registry.set(url, relay);
+  }
+  relay.setFaults(faults);
+  return relay;
+}
+
+/** The mock relay at `url`, if one has been created or connected to. */
+export function getMockRelay(url: string): MockRelay | undefined {
+  return registry.get(url);
+}
+
+/** Drop a mock relay, closing its connections. */
+export function removeMockRelay(url: string): void {
+  registry.get(url)?.dropConnections();
+  registry.delete(url);
+}
+
+/**
+ * A webSocketFactory that serves `mock://` URLs in-process and hands
+ * every other URL to `fallback` (the global WebSocket by default).
+ */
+export function createMockWebSocketFactory(fallback?: WebSocketFactory): WebSocketFactory {
+  return (url) => {
+    if (!url.startsWith('mock://')) return fallback ? fallback(url) : new WebSocket(url);
+    const relay = registry.get(url) ?? (createMockRelay(url) as MockRelayImpl);
+    return new MockSocket(relay);
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * nostr/negentropy.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * Client side of a NIP-77 negentropy reconciliation.
+ *
+ * A session is seeded with the events we already hold for a filter. Its
+ * initiate() message goes out in NEG-OPEN; every NEG-MSG from the relay is
+ * fed to reconcile(), which reports the ids only the relay has (`need`),
+ * the ids only we have (`have`), and the next message to send — null once
+ * the sets are reconciled. The wire codec itself is nostr-tools'; this
+ * wrapper only turns its callbacks into plain return values.
+ *
+ * This module is an internal part of nostr.ts, which owns the sockets
+ * and the NEG-* message routing.
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import { nip77 } from 'nostr-tools';
+import type { Event as NostrEvent } from 'nostr-tools/pure';
+
+/** Largest message either side should send, in bytes of hex. */
+const FRAME_SIZE_LIMIT = 60000;
+
+export interface NegentropyRound {
+  /** Next NEG-MSG payload, or null when reconciliation is complete. */
+  next: string | null;
+  /** Ids the relay has and we don't. */
+  need: string[];
+  /** Ids we have and the relay doesn't. */
+  have: string[];
+}
+
+export interface NegentropySession {
+  /** The initial message, sent as the last element of NEG-OPEN. */
+  initiate(): string;
+  /** Process one NEG-MSG payload from the relay. Throws on a malformed message. */
+  reconcile(message: string): NegentropyRound;
+}
+
+export function createNegentropySession(local: Pick<NostrEvent, 'id' | 'created_at'>[]): NegentropySession {
+  const storage = new nip77.NegentropyStorageVector();
+  for (const event of local) storage.insert(event.created_at, event.id);
+  storage.seal();
+  const negentropy = new nip77.Negentropy(storage, FRAME_SIZE_LIMIT);
+
+  return {
+    initiate() {
+      return negentropy.initiate();
+    },
+    reconcile(message) {
+      const need: string[] = [];
+      const have: string[] = [];
+      const next = negentropy.reconcile(
+        message,
+        (id) => have.push(id),
+        (id) => need.push(id),
+      );
+      return { next, need, have };
+    },
+  };
+}
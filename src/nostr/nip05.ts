@@ -0,0 +1,255 @@
+/**
+ * nostr/nip05.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * NIP-05 identifiers: `name@domain` mapped to a pubkey by the domain's
+ * `/.well-known/nostr.json`, so an organisation can show that a profile
+ * really is theirs.
+ *
+ * A kind-0 profile only claims an identifier; it is verified once the
+ * domain's document lists the same pubkey under that name. The verifier
+ * caches each lookup — for `ttlMs` when the domain answered, for the
+ * shorter `retryMs` when it couldn't be reached — and verify() looks
+ * again once that has passed, so a domain that drops a key stops
+ * vouching for it.
+ *
+ * Identifiers come from untrusted profiles, so only public domain names
+ * are accepted: no ports, IP addresses, `localhost` or local-network
+ * suffixes that would let a profile point every viewer's browser at
+ * their LAN. The cache keeps at most `maxEntries` identifiers.
+ *
+ * Documents are fetched through a Nip05Fetcher. The default is fetch()
+ * with redirects refused, as NIP-05 requires; tests can pass one that
+ * rewrites the https:// URL to a local stand-in server instead.
+ *
+ * This module is an internal part of nostr.ts — import it from there.
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_RETRY_MS = 5 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_MAX_ENTRIES = 1000;
+/** Hostnames that only resolve on the local machine or network. */
+const LOCAL_SUFFIXES = ['localhost', 'local', 'internal', 'lan', 'home.arpa'];
+
+/**
+ * GET `url` and return the response. `signal` aborts when the lookup
+ * times out. Only `ok` and `json()` are used, so a fetch() Response works.
+ */
+export type Nip05Fetcher = (url: string, signal: AbortSignal) => Promise<{ ok: boolean; status: number; json(): Promise<unknown> }>;
+
+/** fetch(), refusing redirects (NIP-05: the document must be served by the domain itself). */
+export const defaultNip05Fetcher: Nip05Fetcher = (url, signal) =>
+  fetch(url, { redirect: 'error', signal, headers: { Accept: 'application/json' } });
+
+/** Raised by resolveNip05() when the domain can't be reached or serves no valid document. */
+export class Nip05Error extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'Nip05Error';
+  }
+}
+
+/** What a domain's nostr.json says about one name. */
+export interface Nip05Pointer {
+  pubkey: string;
+  /** Relays the domain recommends for this pubkey, if any. */
+  relays: string[];
+}
+
+/**
+ * - verified: the domain lists this pubkey under the name
+ * - failed:   it lists another pubkey, or none
+ * - error:    the domain couldn't be reached or served an invalid document
+ */
+export type Nip05Status = 'verified' | 'failed' | 'error';
+
+export interface Nip05Verification {
+  /** The identifier, normalized (lowercase, trimmed). */
+  identifier: string;
+  pubkey: string;
+  status: Nip05Status;
+  /** Unix ms of the lookup this result is based on. */
+  checkedAt: number;
+  /** The domain's relay hints for the pubkey; only when verified. */
+  relays: string[];
+}
+
+/**
+ * Split an identifier into name and domain (both lowercased); null if it
+ * isn't `name@domain` with a public domain name — no port, IP address or
+ * local-only hostname.
+ */
+export function parseNip05(identifier: string): { name: string; domain: string } | null {
+  const match = /^([a-z0-9._-]+)@((?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z](?:[a-z0-9-]*[a-z0-9])?)$/.exec(
+    identifier.trim().toLowerCase(),
+  );
+  if (!match) return null;
+  const domain = match[2];
+  if (LOCAL_SUFFIXES.some((suffix) => domain === suffix || domain.endsWith(`.${suffix}`))) return null;
+  return { name: match[1], domain };
+}
+
+/** An identifier for display: `_@domain` (the domain's root identity) shows as just `domain`. */
+export function formatNip05(identifier: string): string {
+  const parsed = parseNip05(identifier);
+  if (!parsed) return identifier;
+  return parsed.name === '_' ? parsed.domain : `${parsed.name}@${parsed.domain}`;
+}
+
+/**
+ * Look `identifier` up in its domain's nostr.json. Resolves with the
+ * pubkey (and relay hints) listed under the name, or null if the name
+ * isn't listed. Throws Nip05Error when the identifier is malformed, the
+ * request fails or times out, or the response isn't a valid document.
+ */
+export async function resolveNip05(
+  identifier: string,
+  fetcher: Nip05Fetcher = defaultNip05Fetcher,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+): Promise<Nip05Pointer | null> {
+  const parsed = parseNip05(identifier);
+  if (!parsed) throw new Nip05Error(`Not a NIP-05 identifier: ${identifier}`);
+  const { name, domain } = parsed;
+  const url = `https://${domain}/.well-known/nostr.json?name=${encodeURIComponent(name)}`;
+
+  // Raced as well as signalled, so a fetcher that ignores the signal still times out.
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Nip05Error(`${domain} did not answer within ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+  let doc: unknown;
+  try {
+    const response = await Promise.race([fetcher(url, controller.signal), timeout]);
+    if (!response.ok) throw new Nip05Error(`${domain} answered HTTP ${response.status}`);
+    doc = await Promise.race([response.json(), timeout]);
+  } catch (err) {
+    if (err instanceof Nip05Error) throw err;
+    throw new Nip05Error(`Could not fetch ${url}`, err);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const names = (doc as { names?: unknown } | null)?.names;
+  if (!names || typeof names !== 'object') throw new Nip05Error(`${domain} served no "names" map`);
+  const pubkey = (names as Record<string, unknown>)[name];
+  if (typeof pubkey !== 'string' || !/^[0-9a-f]{64}$/i.test(pubkey)) return null;
+
+  const hex = pubkey.toLowerCase();
+  const relays = (doc as { relays?: Record<string, unknown> }).relays?.[hex];
+  return {
+    pubkey: hex,
+    relays: Array.isArray(relays) ? relays.filter((r): r is string => typeof r === 'string' && r !== '') : [],
+  };
+}
+
+export interface Nip05VerifierOptions {
+  /** Defaults to defaultNip05Fetcher. */
+  fetcher?: Nip05Fetcher;
+  /** How long a domain's answer is trusted before verify() asks again. Defaults to 1h. */
+  ttlMs?: number;
+  /** How soon an unreachable domain is tried again. Defaults to 5min. */
+  retryMs?: number;
+  /** Per-request timeout. Defaults to 5s. */
+  timeoutMs?: number;
+  /** Identifiers cached at most; the least recently looked up go first. Defaults to 1000. */
+  maxEntries?: number;
+}
+
+export interface Nip05Verifier {
+  /**
+   * Check that `identifier` belongs to `pubkey`: answered from cache while
+   * the last lookup is fresh, otherwise looked up again (concurrent calls
+   * for one identifier share a request). Never rejects — an unreachable
+   * domain resolves with status 'error'.
+   */
+  verify(pubkey: string, identifier: string): Promise<Nip05Verification>;
+  /** The last result for this pair, fresh or not, without any lookup. */
+  get(pubkey: string, identifier: string): Nip05Verification | undefined;
+  /** Drop cached lookups for one identifier, or all of them. */
+  forget(identifier?: string): void;
+}
+
+interface Lookup {
+  pointer: Nip05Pointer | null;
+  error: boolean;
+  checkedAt: number;
+}
+
+export function createNip05Verifier(options: Nip05VerifierOptions = {}): Nip05Verifier {
+  const fetcher = options.fetcher ?? defaultNip05Fetcher;
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  const retryMs = options.retryMs ?? DEFAULT_RETRY_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+
+  const lookups = new Map<string, Lookup>(); // normalized identifier -> last lookup, oldest first
+  const pending = new Map<string, Promise<Lookup>>();
+
+  function normalize(identifier: string): string {
+    return identifier.trim().toLowerCase();
+  }
+
+  function isFresh(lookup: Lookup): boolean {
+    return Date.now() - lookup.checkedAt < (lookup.error ? retryMs : ttlMs);
+  }
+
+  /** Record a lookup, dropping expired ones and then the oldest beyond maxEntries. */
+  function remember(identifier: string, result: Lookup): void {
+    lookups.delete(identifier); // re-inserted as the newest
+    lookups.set(identifier, result);
+    for (const [id, cached] of lookups) {
+      if (lookups.size > maxEntries || Date.now() - cached.checkedAt >= ttlMs) lookups.delete(id);
+      else break; // insertion order is lookup order, so the rest are newer
+    }
+  }
+
+  function lookup(identifier: string): Promise<Lookup> {
+    let promise = pending.get(identifier);
+    if (!promise) {
+      promise = resolveNip05(identifier, fetcher, timeoutMs)
+        .then((pointer) => ({ pointer, error: false, checkedAt: Date.now() }))
+        .catch(() => ({ pointer: null, error: true, checkedAt: Date.now() }))
+        .then((result) => {
+          remember(identifier, result);
+          pending.delete(identifier);
+          return result;
+        });
+      pending.set(identifier, promise);
+    }
+    return promise;
+  }
+
+  function toVerification(pubkey: string, identifier: string, result: Lookup): Nip05Verification {
+    const verified = result.pointer?.pubkey === pubkey.toLowerCase();
+    return {
+      identifier,
+      pubkey,
+      status: result.error ? 'error' : verified ? 'verified' : 'failed',
+      checkedAt: result.checkedAt,
+      relays: verified ? result.pointer!.relays : [],
+    };
+  }
+
+  return {
+    async verify(pubkey, identifier) {
+      const id = normalize(identifier);
+      if (!parseNip05(id)) return { identifier: id, pubkey, status: 'failed', checkedAt: Date.now(), relays: [] };
+      const cached = lookups.get(id);
+      return toVerification(pubkey, id, cached && isFresh(cached) ? cached : await lookup(id));
+    },
+    get(pubkey, identifier) {
+      const id = normalize(identifier);
+      const cached = lookups.get(id);
+      return cached ? toVerification(pubkey, id, cached) : undefined;
+    },
+    forget(identifier) {
+      if (identifier) lookups.delete(normalize(identifier));
+      else lookups.clear();
+    },
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * nostr/nip19.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * NIP-19 bech32 entities: the human-facing form of keys, events and
+ * addresses.
+ *
+ *   npub / nsec   public / secret key
+ *   note          event id
+ *   nprofile      pubkey + relay hints
+ *   nevent        event id + relay hints, author and kind
+ *   naddr         replaceable address (kind + pubkey + d tag) + relay hints
+ *
+ * Everything inside the client stays hex; these helpers are for display,
+ * sharing and parsing user input. Decoding accepts a `nostr:` URI prefix
+ * (NIP-21) and never throws — invalid input decodes to null.
+ *
+ * This module is an internal part of nostr.ts — import it from there.
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import {
+  decode,
+  naddrEncode,
+  neventEncode,
+  noteEncode,
+  nprofileEncode,
+  npubEncode,
+  nsecEncode,
+  type AddressPointer,
+  type EventPointer,
+  type ProfilePointer,
+} from 'nostr-tools/nip19';
+import type { Event as NostrEvent } from 'nostr-tools/pure';
+
+export { npubEncode, nsecEncode, noteEncode, type AddressPointer, type EventPointer, type ProfilePointer };
+
+/** NIP-19 recommends keeping relay hints short; more just bloat the string. */
+const MAX_RELAY_HINTS = 3;
+
+export type DecodedEntity =
+  | { type: 'npub'; pubkey: string }
+  | { type: 'nsec'; secretKey: Uint8Array }
+  | { type: 'note'; id: string }
+  | { type: 'nprofile'; profile: ProfilePointer }
+  | { type: 'nevent'; event: EventPointer }
+  | { type: 'naddr'; address: AddressPointer };
+
+/** Decode any NIP-19 entity (optionally `nostr:`-prefixed); null if it isn't one. */
+export function decodeEntity(input: string): DecodedEntity | null {
+  const code = input.trim().replace(/^nostr:/i, '');
+  try {
+    const decoded = decode(code);
+    switch (decoded.type) {
+      case 'npub':
+        return { type: 'npub', pubkey: decoded.data };
+      case 'nsec':
+        return { type: 'nsec', secretKey: decoded.data };
+      case 'note':
+        return { type: 'note', id: decoded.data };
+      case 'nprofile':
+        return { type: 'nprofile', profile: decoded.data };
+      case 'nevent':
+        return { type: 'nevent', event: decoded.data };
+      case 'naddr':
+        return { type: 'naddr', address: decoded.data };
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/** A pubkey typed or pasted as hex, npub or nprofile, as hex; null otherwise. */
+export function parsePubkey(input: string): string | null {
+  const trimmed = input.trim();
+  if (/^[0-9a-f]{64}$/i.test(trimmed)) return trimmed.toLowerCase();
+  const decoded = decodeEntity(trimmed);
+  if (decoded?.type === 'npub') return decoded.pubkey;
+  if (decoded?.type === 'nprofile') return decoded.profile.pubkey;
+  return null;
+}
+
+/** Abbreviated npub for display, e.g. `npub1qy3…x7f2`. */
+export function shortNpub(pubkey: string): string {
+  try {
+    const npub = npubEncode(pubkey);
+    return `${npub.slice(0, 9)}…${npub.slice(-4)}`;
+  } catch {
+    return pubkey.slice(0, 8);
+  }
+}
+
+export function encodeProfile(pubkey: string, relays: string[] = []): string {
+  return nprofileEncode({ pubkey, relays: relays.slice(0, MAX_RELAY_HINTS) });
+}
+
+export function encodeEvent(event: Pick<NostrEvent, 'id' | 'pubkey' | 'kind'>, relays: string[] = []): string {
+  return neventEncode({ id: event.id, author: event.pubkey, kind: event.kind, relays: relays.slice(0, MAX_RELAY_HINTS) });
+}
+
+/**
+ * naddr for a replaceable or parameterized-replaceable event (kind +
+ * pubkey + `d` tag) — a reference that stays valid as the event is
+ * updated. Null for other kinds, which only have an nevent.
+ */
+export function encodeAddress(event: Pick<NostrEvent, 'pubkey' | 'kind' | 'tags'>, relays: string[] = []): string | null {
+  const { kind } = event;
+  const replaceable = kind === 0 || kind === 3 || (kind >= 10000 && kind < 20000);
+  const addressable = kind >= 30000 && kind < 40000;
+  if (!replaceable && !addressable) return null;
+  return naddrEncode({
+    kind,
+    pubkey: event.pubkey,
+    identifier: addressable ? (event.tags?.find((t) => t[0] === 'd')?.[1] ?? '') : '',
+    relays: relays.slice(0, MAX_RELAY_HINTS),
+  });
+}
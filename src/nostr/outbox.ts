@@ -0,0 +1,264 @@
+/**
+ * nostr/outbox.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * Durable, IndexedDB-backed outbox for published events.
+ *
+ * NostrClient's own delivery is best-effort: an event goes to whichever
+ * write relays are open at that moment, and only replaceable events are
+ * kept (in memory) for relays that connect later. This outbox closes the
+ * gap. Every event the client publishes is stored — already signed — and
+ * re-sent until at least `minAcks` relays have accepted it, across
+ * reloads. Retries go to the same relays as the first send (the write
+ * relays plus e.g. a DM recipient's inbox relays), every `retryIntervalMs`
+ * and whenever a relay connects. Entries whose NIP-40 `expiration` passes are dropped instead
+ * of delivered late.
+ *
+ * Wiring (imported directly, not through nostr.ts, which stays free of
+ * idb.ts):
+ *
+ *   const outbox = await openOutbox({ minAcks: 2 });
+ *   const client = new NostrClient(signer, { outbox });
+ *   outbox.entries.subscribe((entries) => ...); // pending/sent for the UI
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import { IdbDatabase } from '../idb';
+import { createStore, type Store } from '../store';
+import {
+  getExpiration,
+  getReplaceableAddress,
+  type NostrEvent,
+  type OutboxTransport,
+  type PublishAckMap,
+  type PublishOutbox,
+} from '../nostr';
+
+const STORE = 'outbox';
+const DEFAULT_MIN_ACKS = 1;
+const DEFAULT_RETRY_INTERVAL_MS = 15000;
+const DEFAULT_MAX_ATTEMPTS = 50;
+const DEFAULT_MAX_FINISHED = 100;
+
+/**
+ * - pending: stored, waiting for more relays to accept it
+ * - sent:    accepted by at least minAcks relays; removed from IndexedDB
+ * - expired: NIP-40 expiration passed before it was delivered; removed
+ * - failed:  gave up after maxAttempts sends; removed
+ */
+export type OutboxEntryStatus = 'pending' | 'sent' | 'expired' | 'failed';
+
+export interface OutboxEntry {
+  /** The event id. */
+  id: string;
+  event: NostrEvent;
+  /** Relays the event goes to besides the write relays (a recipient's inbox or DM relays). */
+  relays?: string[];
+  status: OutboxEntryStatus;
+  /** Relays that accepted the event (OK true, or `duplicate:` — they already had it). */
+  acceptedBy: string[];
+  /** Most recent rejection reason per relay, for display. */
+  rejections: Record<string, string>;
+  attempts: number;
+  /** Unix ms when the event entered the outbox. */
+  queuedAt: number;
+  /** Unix ms of the last send attempt, or 0. */
+  lastAttemptAt: number;
+}
+
+export interface OutboxOptions {
+  /** IndexedDB database name. Defaults to 'nostr-outbox'. */
+  dbName?: string;
+  /** How many relays must accept an event before it counts as sent. Defaults to 1. */
+  minAcks?: number;
+  /** How often pending entries are re-sent (besides whenever a relay connects). Defaults to 15s. */
+  retryIntervalMs?: number;
+  /** Send attempts before an entry is marked failed. Defaults to 50. */
+  maxAttempts?: number;
+  /** Finished entries kept in `entries`; the oldest are dropped beyond this. Defaults to 100. */
+  maxFinished?: number;
+}
+
+export interface Outbox extends PublishOutbox {
+  /**
+   * Every entry this session knows about: pending ones (including those
+   * restored from a previous session) plus the latest `maxFinished` of
+   * this session's sent, expired and failed ones. Emits on every change.
+   */
+  readonly entries: Store<OutboxEntry[]>;
+  /** Re-send every pending entry now instead of waiting for the next retry tick. */
+  flush(): Promise<void>;
+  /** Drop an entry (pending or not) without delivering it. */
+  discard(id: string): Promise<void>;
+  /** Remove finished (sent/expired/failed) entries from `entries`. */
+  clearFinished(): void;
+  /** Stop retrying and close the database. */
+  close(): void;
+}
+
+export async function openOutbox(options: OutboxOptions = {}): Promise<Outbox> {
+  const db = await IdbDatabase.open({
+    name: options.dbName ?? 'nostr-outbox',
+    version: 1,
+    stores: [{ name: STORE, keyPath: 'id' }],
+  });
+
+  const minAcks = options.minAcks ?? DEFAULT_MIN_ACKS;
+  const retryIntervalMs = options.retryIntervalMs ?? DEFAULT_RETRY_INTERVAL_MS;
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const maxFinished = options.maxFinished ?? DEFAULT_MAX_FINISHED;
+
+  const entries = createStore<OutboxEntry[]>(await db.getAll<OutboxEntry>(STORE));
+  const inFlight = new Set<string>();
+  let transport: OutboxTransport | null = null;
+  let retryTimer: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  function current(id: string): OutboxEntry | undefined {
+    return entries.get().find((e) => e.id === id);
+  }
+
+  /** Replace an entry in the stream and mirror it to IndexedDB (pending) or out of it (finished). */
+  async function put(entry: OutboxEntry): Promise<void> {
+    if (closed) return; // e.g. acks arriving after close()
+    entries.update((list) => {
+      const i = list.findIndex((e) => e.id === entry.id);
+      return pruneFinished(i === -1 ? [...list, entry] : list.map((e, j) => (j === i ? entry : e)));
+    });
+    if (entry.status === 'pending') await db.set(STORE, entry);
+    else await db.delete(STORE, entry.id);
+  }
+
+  /** Drop the oldest finished entries beyond maxFinished. Pending ones always stay. */
+  function pruneFinished(list: OutboxEntry[]): OutboxEntry[] {
+    const finished = list.filter((e) => e.status !== 'pending');
+    if (finished.length <= maxFinished) return list;
+    const dropped = new Set(
+      finished
+        .sort((a, b) => a.lastAttemptAt - b.lastAttemptAt)
+        .slice(0, finished.length - maxFinished)
+        .map((e) => e.id),
+    );
+    return list.filter((e) => !dropped.has(e.id));
+  }
+
+  function isExpired(entry: OutboxEntry): boolean {
+    const expiration = getExpiration(entry.event);
+    return expiration !== undefined && expiration * 1000 <= Date.now();
+  }
+
+  async function applyAcks(id: string, acks: PublishAckMap): Promise<void> {
+    const entry = current(id);
+    if (closed || !entry || entry.status !== 'pending') return;
+
+    const acceptedBy = new Set(entry.acceptedBy);
+    const rejections = { ...entry.rejections };
+    for (const [relayUrl, ack] of Object.entries(acks)) {
+      if (ack.status === 'accepted' || ack.prefix === 'duplicate') {
+        acceptedBy.add(relayUrl);
+        delete rejections[relayUrl];
+      } else if (ack.status === 'rejected') {
+        rejections[relayUrl] = ack.reason;
+      }
+    }
+
+    let status: OutboxEntryStatus = 'pending';
+    if (acceptedBy.size >= minAcks) status = 'sent';
+    else if (isExpired(entry)) status = 'expired';
+    else if (entry.attempts >= maxAttempts) status = 'failed';
+
+    await put({ ...entry, acceptedBy: [...acceptedBy], rejections, status });
+  }
+
+  async function attempt(entry: OutboxEntry): Promise<void> {
+    if (!transport || inFlight.has(entry.id)) return;
+    if (isExpired(entry)) {
+      await put({ ...entry, status: 'expired' });
+      return;
+    }
+    // The entry's own relays are connected on demand; write relays only while up.
+    if (!entry.relays?.length && transport.getConnectedRelayUrls('write').length === 0) return;
+
+    inFlight.add(entry.id);
+    try {
+      await put({ ...entry, attempts: entry.attempts + 1, lastAttemptAt: Date.now() });
+      await applyAcks(entry.id, await transport.publishSigned(entry.event, entry.relays).acks);
+    } finally {
+      inFlight.delete(entry.id);
+    }
+  }
+
+  async function discard(id: string): Promise<void> {
+    if (closed) return;
+    entries.update((list) => list.filter((e) => e.id !== id));
+    await db.delete(STORE, id);
+  }
+
+  async function flush(): Promise<void> {
+    const pending = entries.get().filter((e) => e.status === 'pending');
+    await Promise.all(pending.map(attempt));
+  }
+
+  /**
+   * Background work (retry ticks, recording what track() was handed) has
+   * nobody to report to. A failed IndexedDB write leaves the entry as it
+   * was, and the next retry tick tries again.
+   */
+  function background(work: Promise<void>): void {
+    work.catch(() => {});
+  }
+
+  return {
+    entries,
+    attach(next) {
+      transport = next;
+      if (retryTimer) clearInterval(retryTimer);
+      retryTimer = setInterval(() => background(flush()), retryIntervalMs);
+      background(flush());
+    },
+    relayConnected() {
+      background(flush());
+    },
+    track(event, acks, extraRelays) {
+      // A newer version of a replaceable event makes any undelivered older one moot.
+      const address = getReplaceableAddress(event);
+      if (address) {
+        for (const old of entries.get()) {
+          if (old.status === 'pending' && old.id !== event.id && getReplaceableAddress(old.event) === address) {
+            background(discard(old.id));
+          }
+        }
+      }
+
+      const entry: OutboxEntry = {
+        id: event.id,
+        event,
+        ...(extraRelays?.length ? { relays: [...extraRelays] } : {}),
+        status: 'pending',
+        acceptedBy: [],
+        rejections: {},
+        attempts: 1,
+        queuedAt: Date.now(),
+        lastAttemptAt: Date.now(),
+      };
+      // The client already made the first send; just record it and its outcome.
+      inFlight.add(event.id);
+      background(
+        put(entry)
+          .then(async () => applyAcks(event.id, await acks))
+          .finally(() => inFlight.delete(event.id)),
+      );
+    },
+    flush,
+    discard,
+    clearFinished() {
+      entries.update((list) => list.filter((e) => e.status === 'pending'));
+    },
+    close() {
+      closed = true;
+      if (retryTimer) clearInterval(retryTimer);
+      retryTimer = null;
+      transport = null;
+      db.close();
+    },
+  };
+}
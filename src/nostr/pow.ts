@@ -0,0 +1,144 @@
+/**
+ * nostr/pow.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * NIP-13 proof of work: mining a nonce before signing, and checking the
+ * work on incoming events.
+ *
+ * Mining is CPU-bound — each extra bit of difficulty doubles the expected
+ * time — so every job runs in its own Web Worker (powWorker.ts) and the
+ * UI stays responsive. Where Worker isn't available (Node, some embedded
+ * runtimes) the job runs on the calling thread instead, in slices that
+ * yield to the event loop.
+ *
+ * Difficulties above MAX_POW_DIFFICULTY are refused outright, and a job
+ * can be given an AbortSignal and a timeout: either one terminates the
+ * worker (or stops the slices) and rejects with PowError.
+ *
+ * An event's work counts only up to the target it commits to in its
+ * `nonce` tag, so an event that got lucky against a lower target can't
+ * pass a higher threshold.
+ *
+ * This module is an internal part of nostr.ts — import it from there.
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import { fastEventHash, getPow } from 'nostr-tools/nip13';
+import type { UnsignedEvent } from 'nostr-tools/pure';
+
+/** Highest difficulty mineEvent() accepts; each bit doubles the expected work. */
+export const MAX_POW_DIFFICULTY = 32;
+/** Hashes tried between yields when mining on the calling thread. */
+const SLICE_SIZE = 2000;
+
+/** Raised by mineEvent() for a difficulty it won't mine, or when the job is aborted or times out. */
+export class PowError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'PowError';
+  }
+}
+
+export interface MineOptions {
+  /** Aborting stops the job. */
+  signal?: AbortSignal;
+  /** Give up after this many ms. No limit when omitted. */
+  timeoutMs?: number;
+}
+
+/** A mining job's input: `event` with a target difficulty. */
+export interface PowJob {
+  event: UnsignedEvent;
+  difficulty: number;
+}
+
+/**
+ * The NIP-13 difficulty an event has proven: leading zero bits of its id,
+ * capped at the target committed to in its `nonce` tag. 0 without one.
+ */
+export function getPowDifficulty(event: { id: string; tags: string[][] }): number {
+  const nonce = event.tags?.find((t) => t[0] === 'nonce');
+  if (!nonce) return 0;
+  const actual = getPow(event.id);
+  const target = Number(nonce[2]);
+  return Number.isFinite(target) ? Math.min(actual, target) : actual;
+}
+
+/**
+ * Mine `event` to `difficulty`: resolves with a copy whose `nonce` tag and
+ * created_at make its id carry that many leading zero bits. Sign the
+ * result as-is. Rejects with PowError when `difficulty` is not an integer
+ * from 0 to MAX_POW_DIFFICULTY, or when `signal` aborts or `timeoutMs`
+ * passes first.
+ */
+export function mineEvent(event: UnsignedEvent, difficulty: number, options: MineOptions = {}): Promise<UnsignedEvent> {
+  if (!Number.isInteger(difficulty) || difficulty < 0 || difficulty > MAX_POW_DIFFICULTY) {
+    return Promise.reject(new PowError(`Proof-of-work difficulty must be 0 to ${MAX_POW_DIFFICULTY}, got ${difficulty}`));
+  }
+  const { signal, timeoutMs } = options;
+  if (signal?.aborted) return Promise.reject(new PowError('Proof-of-work mining aborted', signal.reason));
+
+  return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stop = () => {};
+    const settle = (fn: () => void) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      stop();
+      fn();
+    };
+    const onAbort = () => settle(() => reject(new PowError('Proof-of-work mining aborted', signal?.reason)));
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => settle(() => reject(new PowError(`Proof-of-work mining took over ${timeoutMs}ms`))), timeoutMs);
+    }
+
+    if (typeof Worker === 'undefined') {
+      let stopped = false;
+      stop = () => (stopped = true);
+      mineInSlices(structuredClone(event), difficulty, () => stopped).then(
+        (mined) => mined && settle(() => resolve(withoutId(mined))),
+        (err) => settle(() => reject(new PowError('Proof-of-work mining failed', err))),
+      );
+      return;
+    }
+
+    const worker = new Worker(new URL('./powWorker.ts', import.meta.url), { type: 'module' });
+    stop = () => worker.terminate();
+    worker.onmessage = (e: MessageEvent<UnsignedEvent & { id: string }>) => settle(() => resolve(withoutId(e.data)));
+    worker.onerror = (e) => settle(() => reject(new PowError(`Proof-of-work worker failed: ${e.message}`)));
+    worker.postMessage({ event, difficulty } satisfies PowJob);
+  });
+}
+
+/**
+ * nostr-tools' minePow, yielding every SLICE_SIZE hashes so a timeout or
+ * abort gets a chance to run. Resolves with null once `stopped()`.
+ */
+async function mineInSlices(
+  event: UnsignedEvent,
+  difficulty: number,
+  stopped: () => boolean,
+): Promise<(UnsignedEvent & { id: string }) | null> {
+  const tag = ['nonce', '0', difficulty.toString()];
+  event.tags.push(tag);
+  let count = 0;
+  for (;;) {
+    for (let i = 0; i < SLICE_SIZE; i++) {
+      const now = Math.floor(Date.now() / 1000);
+      if (now !== event.created_at) {
+        count = 0;
+        event.created_at = now;
+      }
+      tag[1] = (++count).toString();
+      const id = fastEventHash(event);
+      if (getPow(id) >= difficulty) return { ...event, id };
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    if (stopped()) return null;
+  }
+}
+
+function withoutId(mined: UnsignedEvent & { id?: string }): UnsignedEvent {
+  const { id: _id, ...event } = mined;
+  return event;
+}
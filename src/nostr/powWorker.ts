@@ -0,0 +1,14 @@
+/**
+ * nostr/powWorker.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * Web Worker entry for NIP-13 mining (see pow.ts). Receives one PowJob,
+ * replies with the mined event (id included) and is then terminated.
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import { minePow } from 'nostr-tools/nip13';
+import type { PowJob } from './pow';
+
+self.onmessage = (e: MessageEvent<PowJob>) => {
+  self.postMessage(minePow(e.data.event, e.data.difficulty));
+};
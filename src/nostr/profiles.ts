@@ -0,0 +1,277 @@
+/**
+ * nostr/profiles.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * IndexedDB-backed cache of kind-0 user profiles (name, picture, about,
+ * languages, ...), with batched lookups.
+ *
+ * The globe can show hundreds of authors at once; asking for each one's
+ * profile separately would open a REQ per author. Instead request() only
+ * queues pubkeys, and every pubkey queued within `batchDelayMs` goes out
+ * in a single NostrClient.fetchProfiles() query. Profiles already cached
+ * and younger than `maxAgeMs` (including "looked up, has none") are not
+ * asked for again, and the cache survives reloads.
+ *
+ * With a `nip05` verifier, the identifier each profile claims is checked
+ * against its domain and the outcome stored on the profile (and so
+ * persisted). request() re-checks it once the verifier's cache is stale;
+ * isVerified() is what a listing's badge should go by.
+ *
+ * Imported directly, not through nostr.ts, which stays free of idb.ts:
+ *
+ *   const profiles = await openProfileStore(client);
+ *   profiles.profiles.subscribe((byPubkey) => ...);
+ *   void profiles.request(visibleAuthors);
+ *   await profiles.save({ name: 'Ada', languages: ['en', 'de'] });
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import { IdbDatabase } from '../idb';
+import { createStore, type Store } from '../store';
+import {
+  parseProfileEvent,
+  parseNip05,
+  PROFILE_KIND,
+  type NostrClient,
+  type Nip05Verification,
+  type Nip05Verifier,
+  type NostrEvent,
+  type ProfileMetadata,
+  type PublishResult,
+} from '../nostr';
+
+const STORE = 'profiles';
+const DEFAULT_MAX_AGE_MS = 60 * 60 * 1000;
+const DEFAULT_BATCH_DELAY_MS = 50;
+
+export interface CachedProfile {
+  pubkey: string;
+  /** Empty when the author was looked up but has no (valid) profile. */
+  metadata: ProfileMetadata;
+  /** created_at of the kind-0 event; 0 when there is none. */
+  createdAt: number;
+  /** Unix ms of the last lookup, or of when the event was seen. */
+  fetchedAt: number;
+  /** Last NIP-05 check of `metadata.nip05`; only with a verifier. */
+  nip05?: Nip05Verification;
+}
+
+export interface ProfileStoreOptions {
+  /** IndexedDB database name. Defaults to 'nostr-profiles'. */
+  dbName?: string;
+  /** Cached profiles older than this are fetched again on request(). Defaults to 1h. */
+  maxAgeMs?: number;
+  /** How long request() waits to gather more pubkeys into one query. Defaults to 50ms. */
+  batchDelayMs?: number;
+  /** Verify the NIP-05 identifiers profiles claim. Off when omitted. */
+  nip05?: Nip05Verifier;
+}
+
+/** The parts of NostrClient the store uses. */
+export type ProfileClient = Pick<NostrClient, 'fetchProfiles' | 'publishProfile' | 'getPublicKey'>;
+
+export interface ProfileStore {
+  /** Every cached profile by pubkey. Emits a new map on every change. */
+  readonly profiles: Store<ReadonlyMap<string, CachedProfile>>;
+  get(pubkey: string): CachedProfile | undefined;
+  /** True when the profile's current NIP-05 identifier was last found to belong to it. */
+  isVerified(pubkey: string): boolean;
+  /**
+   * Make sure profiles for `pubkeys` are cached and fresh. Lookups from
+   * calls made close together are batched into one query; resolves when
+   * the ones this call needed have arrived (or been found missing).
+   */
+  request(pubkeys: string[]): Promise<void>;
+  /**
+   * Publish our own profile: the newest one on our relays (or the cached
+   * one, if that's newer) with `edits` applied — a field set to '' or
+   * undefined is removed. Fetches first, because a kind-0 replaces the
+   * whole profile and the cache may not have it yet: fields set by other
+   * clients (nip05, lud16, banner, ...) must survive. Returns the client's
+   * publish result; rejects without publishing if the fetch throws.
+   */
+  save(edits: Partial<ProfileMetadata>): Promise<PublishResult>;
+  /** Cache a kind-0 event seen elsewhere, e.g. on a subscription. Older versions are ignored. */
+  add(event: NostrEvent): void;
+  /** Forget every cached profile, in memory and in IndexedDB. */
+  clear(): Promise<void>;
+  close(): void;
+}
+
+export async function openProfileStore(client: ProfileClient, options: ProfileStoreOptions = {}): Promise<ProfileStore> {
+  const db = await IdbDatabase.open({
+    name: options.dbName ?? 'nostr-profiles',
+    version: 1,
+    stores: [{ name: STORE, keyPath: 'pubkey' }],
+  });
+
+  const maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+  const batchDelayMs = options.batchDelayMs ?? DEFAULT_BATCH_DELAY_MS;
+  const verifier = options.nip05;
+
+  const stored = await db.getAll<CachedProfile>(STORE);
+  const profiles = createStore<ReadonlyMap<string, CachedProfile>>(new Map(stored.map((p) => [p.pubkey, p])));
+  const inFlight = new Map<string, Promise<void>>(); // pubkey -> the batch that will fetch it
+  let queued = new Set<string>();
+  let batch: { promise: Promise<void>; resolve: () => void } | null = null;
+  let batchTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  /** Write profiles into the stream (one emission) and IndexedDB. */
+  function put(updates: CachedProfile[]): void {
+    if (updates.length === 0) return;
+    profiles.update((current) => {
+      const next = new Map(current);
+      for (const profile of updates) next.set(profile.pubkey, profile);
+      return next;
+    });
+    if (!closed) for (const profile of updates) void db.set(STORE, profile);
+  }
+
+  /** The profile's NIP-05 identifier, normalized; undefined when it claims none (or a malformed one). */
+  function claimedNip05(profile: CachedProfile): string | undefined {
+    const nip05 = profile.metadata.nip05;
+    return typeof nip05 === 'string' && parseNip05(nip05) ? nip05.trim().toLowerCase() : undefined;
+  }
+
+  /** Check (or re-check) the identifier a profile claims and record the result on it. */
+  function verifyNip05(profile: CachedProfile): void {
+    const identifier = claimedNip05(profile);
+    if (!verifier || !identifier || closed) return;
+    void verifier.verify(profile.pubkey, identifier).then((result) => {
+      const current = profiles.get().get(profile.pubkey);
+      if (!current || claimedNip05(current) !== identifier) return; // changed meanwhile
+      if (current.nip05?.checkedAt === result.checkedAt && current.nip05.status === result.status) return;
+      // Keep showing a previous pass while the domain is merely unreachable.
+      if (result.status === 'error' && current.nip05?.status === 'verified' && current.nip05.identifier === identifier) return;
+      put([{ ...current, nip05: result }]);
+    });
+  }
+
+  /**
+   * A cache entry for `event`, or null if what we have is at least as new.
+   * The previous NIP-05 result carries over; isVerified() ignores it once
+   * the identifier differs.
+   */
+  function fromEvent(event: NostrEvent): CachedProfile | null {
+    if (event.kind !== PROFILE_KIND) return null;
+    const cached = profiles.get().get(event.pubkey);
+    if (cached && cached.createdAt >= event.created_at) return null;
+    return {
+      pubkey: event.pubkey,
+      metadata: parseProfileEvent(event) ?? {},
+      createdAt: event.created_at,
+      fetchedAt: Date.now(),
+      nip05: cached?.nip05,
+    };
+  }
+
+  async function runBatch(pubkeys: string[]): Promise<void> {
+    let events: NostrEvent[] = [];
+    try {
+      events = await client.fetchProfiles(pubkeys);
+    } catch {
+      // Leave the cache as it was; the next request() tries again.
+      return;
+    }
+    const found = new Set(events.map((e) => e.pubkey));
+    const updates: CachedProfile[] = [];
+    for (const event of events) {
+      const profile = fromEvent(event);
+      if (profile) updates.push(profile);
+      else {
+        const cached = profiles.get().get(event.pubkey);
+        if (cached) updates.push({ ...cached, fetchedAt: Date.now() });
+      }
+    }
+    for (const pubkey of pubkeys) {
+      if (found.has(pubkey)) continue;
+      const cached = profiles.get().get(pubkey);
+      updates.push(cached ? { ...cached, fetchedAt: Date.now() } : { pubkey, metadata: {}, createdAt: 0, fetchedAt: Date.now() });
+    }
+    put(updates);
+    for (const profile of updates) verifyNip05(profile);
+  }
+
+  function flush(): void {
+    const pubkeys = [...queued];
+    const current = batch!;
+    queued = new Set();
+    batch = null;
+    batchTimer = null;
+    void runBatch(pubkeys).finally(() => {
+      for (const pubkey of pubkeys) inFlight.delete(pubkey);
+      current.resolve();
+    });
+  }
+
+  function isFresh(pubkey: string): boolean {
+    const cached = profiles.get().get(pubkey);
+    return !!cached && Date.now() - cached.fetchedAt <= maxAgeMs;
+  }
+
+  return {
+    profiles,
+    get(pubkey) {
+      return profiles.get().get(pubkey);
+    },
+    isVerified(pubkey) {
+      const profile = profiles.get().get(pubkey);
+      return !!profile?.nip05 && profile.nip05.status === 'verified' && profile.nip05.identifier === claimedNip05(profile);
+    },
+    async request(pubkeys) {
+      for (const pubkey of new Set(pubkeys)) {
+        if (closed || inFlight.has(pubkey)) continue;
+        if (isFresh(pubkey)) {
+          verifyNip05(profiles.get().get(pubkey)!);
+          continue;
+        }
+        if (!batch) {
+          let resolve!: () => void;
+          const promise = new Promise<void>((r) => (resolve = r));
+          batch = { promise, resolve };
+          batchTimer = setTimeout(flush, batchDelayMs);
+        }
+        queued.add(pubkey);
+        inFlight.set(pubkey, batch.promise);
+      }
+      await Promise.all(pubkeys.map((pk) => inFlight.get(pk)).filter(Boolean));
+    },
+    async save(edits) {
+      const me = await client.getPublicKey();
+      const fetched = (await client.fetchProfiles([me])).map(fromEvent).filter((p): p is CachedProfile => p !== null);
+      put(fetched);
+      const metadata: ProfileMetadata = { ...profiles.get().get(me)?.metadata };
+      for (const [field, value] of Object.entries(edits)) {
+        if (value === undefined || value === '') delete metadata[field];
+        else metadata[field] = value;
+      }
+      const result = await client.publishProfile(metadata);
+      const profile = fromEvent(result.event);
+      if (profile) {
+        put([profile]);
+        verifyNip05(profile);
+      }
+      return result;
+    },
+    add(event) {
+      const profile = fromEvent(event);
+      if (!profile) return;
+      put([profile]);
+      verifyNip05(profile);
+    },
+    async clear() {
+      profiles.set(new Map());
+      await db.clear(STORE);
+    },
+    close() {
+      closed = true;
+      if (batchTimer) clearTimeout(batchTimer);
+      batchTimer = null;
+      batch?.resolve();
+      batch = null;
+      queued.clear();
+      inFlight.clear();
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * nostr/relayHealth.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * Per-relay health bookkeeping for NostrClient.
+ *
+ * The client reports what happens on each connection (connects, drops,
+ * events, bad signatures, EOSE timing, publish OKs) and this tracker
+ * turns it into a RelayStats snapshot per relay, including a 0..1 health
+ * score, published through a Store so a status panel can subscribe to
+ * it. Snapshots are throttled: a busy relay delivering hundreds of
+ * events a second produces at most one emission per interval. Uptime
+ * keeps changing while nothing happens, so snapshots are also refreshed
+ * every REFRESH_INTERVAL_MS while any relay is tracked.
+ *
+ * Score = 0.4 · uptime + 0.25 · publish acceptance + 0.2 · responsiveness
+ *       + 0.15 · signature validity, halved while disconnected. Each
+ * factor starts out neutral (Laplace-smoothed) so a relay with no
+ * history isn't ranked above or below one that merely has little.
+ *
+ * This module is an internal part of nostr.ts — import it from there.
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import { createStore, type Store } from '../store';
+
+const EMIT_INTERVAL_MS = 1000;
+const REFRESH_INTERVAL_MS = 10000;
+/** EOSE latency at which responsiveness scores 0.5. */
+const EOSE_LATENCY_MIDPOINT_MS = 2000;
+/** Weight of the newest sample in the EOSE latency moving average. */
+const EOSE_EMA_ALPHA = 0.2;
+
+export interface RelayStats {
+  url: string;
+  connected: boolean;
+  /** How long the most recent successful connect took, in ms. */
+  connectLatencyMs: number | null;
+  /** Unix ms the current connection opened; null while disconnected. */
+  connectedSince: number | null;
+  /** Total time connected this session (including the current connection), in ms. */
+  connectedMs: number;
+  /** Successful connections this session. */
+  connects: number;
+  /** Reconnects scheduled after a drop or failed connect. */
+  reconnectAttempts: number;
+  /** Moving average of REQ-to-EOSE latency, in ms. */
+  eoseLatencyMs: number | null;
+  eventsReceived: number;
+  invalidSignatures: number;
+  publishAccepted: number;
+  publishRejected: number;
+  publishTimeouts: number;
+  /** Derived health, 0 (worst) to 1 (best). */
+  score: number;
+}
+
+export interface RelayHealthTracker {
+  /** Every tracked relay, best score first. */
+  readonly stats: Store<RelayStats[]>;
+  connecting(url: string): void;
+  connected(url: string): void;
+  disconnected(url: string): void;
+  reconnectScheduled(url: string): void;
+  eventReceived(url: string): void;
+  invalidSignature(url: string): void;
+  publishAck(url: string, status: 'accepted' | 'rejected' | 'timeout'): void;
+  eose(url: string, latencyMs: number): void;
+  /** Stop tracking a relay (e.g. removed from the relay list). */
+  remove(url: string): void;
+  /**
+   * Stop the timers. Later reports (e.g. the sockets' closes) still
+   * update `stats`, each emitted right away.
+   */
+  close(): void;
+}
+
+interface RelayCounters extends Omit<RelayStats, 'connected' | 'score'> {
+  /** Unix ms of the pending connect attempt, if any. */
+  connectStartedAt: number | null;
+  /** Unix ms the relay was first tracked; the denominator for uptime. */
+  trackedSince: number;
+}
+
+export function createRelayHealthTracker(): RelayHealthTracker {
+  const relays = new Map<string, RelayCounters>();
+  const stats = createStore<RelayStats[]>([]);
+  let emitTimer: ReturnType<typeof setTimeout> | null = null;
+  let refreshTimer: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  function counters(url: string): RelayCounters {
+    let c = relays.get(url);
+    if (!c) {
+      c = {
+        url,
+        connectLatencyMs: null,
+        connectedSince: null,
+        connectedMs: 0,
+        connects: 0,
+        reconnectAttempts: 0,
+        eoseLatencyMs: null,
+        eventsReceived: 0,
+        invalidSignatures: 0,
+        publishAccepted: 0,
+        publishRejected: 0,
+        publishTimeouts: 0,
+        connectStartedAt: null,
+        trackedSince: Date.now(),
+      };
+      relays.set(url, c);
+      if (!closed) refreshTimer ??= setInterval(emit, REFRESH_INTERVAL_MS);
+    }
+    return c;
+  }
+
+  function snapshot(c: RelayCounters, now: number): RelayStats {
+    const connectedMs = c.connectedMs + (c.connectedSince !== null ? now - c.connectedSince : 0);
+    const uptime = (connectedMs + 1000) / (now - c.trackedSince + 2000);
+    const acceptance = (c.publishAccepted + 1) / (c.publishAccepted + c.publishRejected + c.publishTimeouts + 2);
+    const responsiveness =
+      c.eoseLatencyMs === null ? 0.5 : EOSE_LATENCY_MIDPOINT_MS / (EOSE_LATENCY_MIDPOINT_MS + c.eoseLatencyMs);
+    const validity = 1 - (c.invalidSignatures + 0.5) / (c.eventsReceived + 1);
+    const score = (0.4 * uptime + 0.25 * acceptance + 0.2 * responsiveness + 0.15 * validity) * (c.connectedSince !== null ? 1 : 0.5);
+
+    const { connectStartedAt: _started, trackedSince: _since, ...rest } = c;
+    return { ...rest, connected: c.connectedSince !== null, connectedMs, score: Math.round(score * 1000) / 1000 };
+  }
+
+  function emit(): void {
+    if (emitTimer) clearTimeout(emitTimer);
+    emitTimer = null;
+    const now = Date.now();
+    stats.set([...relays.values()].map((c) => snapshot(c, now)).sort((a, b) => b.score - a.score));
+  }
+
+  function scheduleEmit(): void {
+    if (closed) emit();
+    else emitTimer ??= setTimeout(emit, EMIT_INTERVAL_MS);
+  }
+
+  return {
+    stats,
+    connecting(url) {
+      counters(url).connectStartedAt = Date.now();
+    },
+    connected(url) {
+      const c = counters(url);
+      const now = Date.now();
+      if (c.connectStartedAt !== null) c.connectLatencyMs = now - c.connectStartedAt;
+      c.connectStartedAt = null;
+      c.connectedSince = now;
+      c.connects++;
+      scheduleEmit();
+    },
+    disconnected(url) {
+      const c = counters(url);
+      if (c.connectedSince !== null) c.connectedMs += Date.now() - c.connectedSince;
+      c.connectedSince = null;
+      c.connectStartedAt = null;
+      scheduleEmit();
+    },
+    reconnectScheduled(url) {
+      counters(url).reconnectAttempts++;
+      scheduleEmit();
+    },
+    eventReceived(url) {
+      counters(url).eventsReceived++;
+      scheduleEmit();
+    },
+    invalidSignature(url) {
+      counters(url).invalidSignatures++;
+      scheduleEmit();
+    },
+    publishAck(url, status) {
+      const c = counters(url);
+      if (status === 'accepted') c.publishAccepted++;
+      else if (status === 'rejected') c.publishRejected++;
+      else c.publishTimeouts++;
+      scheduleEmit();
+    },
+    eose(url, latencyMs) {
+      const c = counters(url);
+      c.eoseLatencyMs =
+        c.eoseLatencyMs === null ? latencyMs : c.eoseLatencyMs + EOSE_EMA_ALPHA * (latencyMs - c.eoseLatencyMs);
+      scheduleEmit();
+    },
+    remove(url) {
+      if (!relays.delete(url)) return;
+      if (relays.size === 0 && refreshTimer) {
+        clearInterval(refreshTimer);
+        refreshTimer = null;
+      }
+      scheduleEmit();
+    },
+    close() {
+      closed = true;
+      if (refreshTimer) clearInterval(refreshTimer);
+      refreshTimer = null;
+      emit();
+    },
+  };
+}
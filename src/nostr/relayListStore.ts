@@ -0,0 +1,56 @@
+/**
+ * nostr/relayListStore.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * Persists the user's chosen relay list (URLs + read/write roles) in
+ * IndexedDB so it survives reloads.
+ *
+ * NostrClient itself stays persistence-free: it reports every change to
+ * its relay set through `onRelayListChange`, and accepts a relay list at
+ * construction. This module is the small piece that connects the two
+ * (imported directly, not through nostr.ts, which stays free of idb.ts):
+ *
+ *   const relayStore = await openRelayListStore();
+ *   const client = new NostrClient(signer, {
+ *     relays: (await relayStore.load()) ?? undefined,
+ *     onRelayListChange: (relays) => void relayStore.save(relays),
+ *   });
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import { IdbDatabase } from '../idb';
+import type { RelayListEntry } from '../nostr';
+
+const STORE = 'kv';
+const RELAY_LIST_KEY = 'relayList';
+
+export interface RelayListStore {
+  /** The saved relay list, or null if the user never changed the defaults. */
+  load(): Promise<RelayListEntry[] | null>;
+  save(relays: RelayListEntry[]): Promise<void>;
+  /** Forget the saved list, so the client falls back to its defaults next time. */
+  clear(): Promise<void>;
+  close(): void;
+}
+
+export async function openRelayListStore(dbName = 'nostr-relays'): Promise<RelayListStore> {
+  const db = await IdbDatabase.open({
+    name: dbName,
+    version: 1,
+    stores: [{ name: STORE }],
+  });
+
+  return {
+    async load() {
+      return (await db.get<RelayListEntry[]>(STORE, RELAY_LIST_KEY)) ?? null;
+    },
+    async save(relays) {
+      await db.set(STORE, relays, RELAY_LIST_KEY);
+    },
+    async clear() {
+      await db.delete(STORE, RELAY_LIST_KEY);
+    },
+    close() {
+      db.close();
+    },
+  };
+}
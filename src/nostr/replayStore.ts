@@ -0,0 +1,56 @@
+/**
+ * nostr/replayStore.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * IndexedDB persistence for NostrClient's publish replay buffer.
+ *
+ * The client keeps the replaceable events and deletion requests it has
+ * published so relays that connect later still receive them. Without this
+ * store that buffer is lost on reload; with it, the next session loads the
+ * entries on connect() — with the relays that already accepted each one —
+ * and keeps re-seeding late relays. Expired entries are dropped by the
+ * client when loaded.
+ *
+ * Entries are keyed by buffer key, not by author: use one database per
+ * identity. Imported directly, not through nostr.ts, which stays free of
+ * idb.ts:
+ *
+ *   const replayStore = await openReplayStore();
+ *   const client = new NostrClient(signer, { replayStore });
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import { IdbDatabase } from '../idb';
+import type { PublishReplayStore, ReplayEntry } from '../nostr';
+
+const STORE = 'replay';
+
+export interface ReplayStoreOptions {
+  /** IndexedDB database name. Defaults to 'nostr-replay'. */
+  dbName?: string;
+}
+
+export interface ReplayStore extends PublishReplayStore {
+  /** Drop every persisted entry. */
+  clear(): Promise<void>;
+  close(): void;
+}
+
+export async function openReplayStore(options: ReplayStoreOptions = {}): Promise<ReplayStore> {
+  const db = await IdbDatabase.open({
+    name: options.dbName ?? 'nostr-replay',
+    version: 1,
+    stores: [{ name: STORE, keyPath: 'key' }],
+  });
+
+  return {
+    load: () => db.getAll<ReplayEntry>(STORE),
+    async put(entry) {
+      await db.set(STORE, entry);
+    },
+    delete: (key) => db.delete(STORE, key),
+    clear: () => db.clear(STORE),
+    close() {
+      db.close();
+    },
+  };
+}
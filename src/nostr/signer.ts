@@ -0,0 +1,352 @@
+/**
+ * nostr/signer.ts
+ * ─────────────────────────────────────────────────────────────────────────
+ * Pluggable event signers for NostrClient.
+ *
+ * A Signer is the only thing NostrClient needs from an identity: a public
+ * key, the ability to sign an event template, and NIP-44 encrypt/decrypt
+ * against a peer. Where the secret key actually lives is the signer's
+ * business:
+ *
+ *   - createSecretKeySigner()  raw key held in memory (the original behaviour)
+ *   - createNip07Signer()      browser extension via `window.nostr`
+ *   - createNip46Signer()      remote bunker, spoken to over the owning
+ *                              NostrClient's own relay connections
+ *
+ * Every method is async so all three look identical to callers. This
+ * module is an internal part of nostr.ts — import it from there.
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+import {
+  finalizeEvent,
+  generateSecretKey,
+  getPublicKey,
+  verifyEvent,
+  type EventTemplate,
+  type Event as NostrEvent,
+} from 'nostr-tools/pure';
+import { v2 as nip44 } from 'nostr-tools/nip44';
+import type { NostrFilter, SubscriptionHandle } from '../nostr';
+
+/** NIP-46 request/response event kind. */
+const NIP46_KIND = 24133;
+const NIP46_DEFAULT_TIMEOUT_MS = 30000;
+
+/** Async signing/encryption capability handed to NostrClient. */
+export interface Signer {
+  /** The public key (hex) events will be signed as. */
+  getPublicKey(): Promise<string>;
+  /** Sign an unsigned template, returning the complete event (id + sig). */
+  signEvent(template: EventTemplate): Promise<NostrEvent>;
+  /** NIP-44 encrypt plaintext for a given peer pubkey. */
+  nip44Encrypt(peerPubkey: string, plaintext: string): Promise<string>;
+  /** NIP-44 decrypt ciphertext received from a given peer pubkey. */
+  nip44Decrypt(peerPubkey: string, ciphertext: string): Promise<string>;
+  /**
+   * Called by NostrClient when this signer is installed. Signers that need
+   * to talk to relays themselves (NIP-46) use the client's connections
+   * instead of opening their own; the others simply don't implement it.
+   */
+  attach?(transport: SignerTransport): void;
+}
+
+/** The slice of NostrClient a relay-backed signer needs. */
+export interface SignerTransport {
+  subscribe(id: string, filter: NostrFilter, onEvent: (event: NostrEvent) => void): SubscriptionHandle;
+  /** Broadcast an already-signed event as-is. */
+  publishSigned(event: NostrEvent): unknown;
+}
+
+/** Raised when a signer is unavailable, refuses a request, or times out. */
+export class SignerError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'SignerError';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// In-memory secret key
+// ═══════════════════════════════════════════════════════════════════════
+
+/** A Signer backed by a raw secret key, plus its synchronously known pubkey. */
+export interface SecretKeySigner extends Signer {
+  readonly pubkey: string;
+}
+
+export function createSecretKeySigner(secretKey: Uint8Array): SecretKeySigner {
+  const pubkey = getPublicKey(secretKey);
+  const conversationKeys = new Map<string, Uint8Array>(); // peer pubkey -> NIP-44 key
+
+  function conversationKey(peerPubkey: string): Uint8Array {
+    let key = conversationKeys.get(peerPubkey);
+    if (!key) {
+      key = nip44.utils.getConversationKey(secretKey, peerPubkey);
+      conversationKeys.set(peerPubkey, key);
+    }
+    return key;
+  }
+
+  return {
+    pubkey,
+    async getPublicKey() {
+      return pubkey;
+    },
+    async signEvent(template) {
+      return finalizeEvent(template, secretKey);
+    },
+    async nip44Encrypt(peerPubkey, plaintext) {
+      return nip44.encrypt(plaintext, conversationKey(peerPubkey));
+    },
+    async nip44Decrypt(peerPubkey, ciphertext) {
+      return nip44.decrypt(ciphertext, conversationKey(peerPubkey));
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// NIP-07 browser extension
+// ═══════════════════════════════════════════════════════════════════════
+
+/** The subset of the NIP-07 `window.nostr` object this module uses. */
+export interface Nip07Provider {
+  getPublicKey(): Promise<string>;
+  signEvent(template: EventTemplate): Promise<NostrEvent>;
+  nip44?: {
+    encrypt(pubkey: string, plaintext: string): Promise<string>;
+    decrypt(pubkey: string, ciphertext: string): Promise<string>;
+  };
+}
+
+/** True if a NIP-07 extension has injected `window.nostr`. */
+export function hasNip07Provider(): boolean {
+  return typeof window !== 'undefined' && !!(window as { nostr?: Nip07Provider }).nostr;
+}
+
+/**
+ * A Signer that defers to a NIP-07 browser extension. The provider is
+ * looked up on every call rather than captured once, since extensions
+ * often inject `window.nostr` after the page has loaded.
+ */
+export function createNip07Signer(): Signer {
+  let cachedPubkey: string | null = null;
+
+  function provider(): Nip07Provider {
+    const nostr = typeof window !== 'undefined' ? (window as { nostr?: Nip07Provider }).nostr : undefined;
+    if (!nostr) throw new SignerError('No NIP-07 extension found (window.nostr is undefined)');
+    return nostr;
+  }
+
+  function nip44Provider(): NonNullable<Nip07Provider['nip44']> {
+    const ext = provider().nip44;
+    if (!ext) throw new SignerError('NIP-07 extension does not support NIP-44');
+    return ext;
+  }
+
+  return {
+    async getPublicKey() {
+      cachedPubkey ??= await provider().getPublicKey();
+      return cachedPubkey;
+    },
+    async signEvent(template) {
+      return provider().signEvent(template);
+    },
+    async nip44Encrypt(peerPubkey, plaintext) {
+      return nip44Provider().encrypt(peerPubkey, plaintext);
+    },
+    async nip44Decrypt(peerPubkey, ciphertext) {
+      return nip44Provider().decrypt(peerPubkey, ciphertext);
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// NIP-46 remote bunker
+// ═══════════════════════════════════════════════════════════════════════
+
+/** Parsed form of a `bunker://<remote-signer-pubkey>?relay=...&secret=...` URI. */
+export interface BunkerPointer {
+  pubkey: string;
+  relays: string[];
+  secret: string | null;
+}
+
+/** Parse a bunker:// URI. Returns null if it isn't one. */
+export function parseBunkerUri(uri: string): BunkerPointer | null {
+  const match = /^bunker:\/\/([0-9a-f]{64})\/?(?:\?(.*))?$/i.exec(uri.trim());
+  if (!match) return null;
+  const params = new URLSearchParams(match[2] ?? '');
+  return {
+    pubkey: match[1].toLowerCase(),
+    relays: params.getAll('relay'),
+    secret: params.get('secret'),
+  };
+}
+
+export interface Nip46SignerOptions {
+  /** bunker:// URI or an already-parsed pointer. */
+  bunker: string | BunkerPointer;
+  /**
+   * Local keypair that identifies this client to the bunker. Generated if
+   * omitted — persist it (and pass it back in) to avoid re-approving the
+   * client on every session.
+   */
+  clientSecretKey?: Uint8Array;
+  /** How long to wait for each bunker response. Defaults to 30s. */
+  timeoutMs?: number;
+  /** Called when the bunker asks the user to approve a request at a URL. */
+  onAuthUrl?: (url: string) => void;
+}
+
+export interface Nip46Signer extends Signer {
+  readonly bunker: BunkerPointer;
+  readonly clientSecretKey: Uint8Array;
+  /** Stop listening for bunker responses and reject any pending requests. */
+  close(): void;
+}
+
+interface PendingNip46Request {
+  resolve: (result: string) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * A Signer that forwards every operation to a NIP-46 remote signer. It
+ * opens no sockets of its own: requests and responses travel over the
+ * relays of whichever NostrClient it is attached to, so the bunker's
+ * relays (see `bunker.relays`) should be among that client's relays.
+ */
+export function createNip46Signer(options: Nip46SignerOptions): Nip46Signer {
+  const bunker = typeof options.bunker === 'string' ? parseBunkerUri(options.bunker) : options.bunker;
+  if (!bunker) throw new SignerError('Invalid bunker URI');
+
+  const clientSecretKey = options.clientSecretKey ?? generateSecretKey();
+  const clientPubkey = getPublicKey(clientSecretKey);
+  const conversationKey = nip44.utils.getConversationKey(clientSecretKey, bunker.pubkey);
+  const timeoutMs = options.timeoutMs ?? NIP46_DEFAULT_TIMEOUT_MS;
+
+  const pending = new Map<string, PendingNip46Request>();
+  let transport: SignerTransport | null = null;
+  let responseSub: SubscriptionHandle | null = null;
+  let connecting: Promise<void> | null = null;
+  let cachedPubkey: string | null = null;
+  let serial = 0;
+
+  function handleResponse(event: NostrEvent): void {
+    let response: { id?: string; result?: string; error?: string };
+    try {
+      response = JSON.parse(nip44.decrypt(event.content, conversationKey));
+    } catch {
+      return; // Not addressed to us, or garbled — ignore.
+    }
+
+    const request = response.id ? pending.get(response.id) : undefined;
+    if (!request) return;
+
+    // The bunker wants the user to approve this request out-of-band; the
+    // real response follows later under the same id.
+    if (response.result === 'auth_url') {
+      if (response.error) options.onAuthUrl?.(response.error);
+      return;
+    }
+
+    clearTimeout(request.timer);
+    pending.delete(response.id);
+    if (response.error) request.reject(new SignerError(`Bunker rejected request: ${response.error}`));
+    else request.resolve(response.result ?? '');
+  }
+
+  function sendRequest(method: string, params: string[]): Promise<string> {
+    if (!transport) {
+      return Promise.reject(new SignerError('NIP-46 signer is not attached to a NostrClient'));
+    }
+
+    const id = `${clientPubkey.slice(0, 8)}-${++serial}`;
+    const event = finalizeEvent(
+      {
+        kind: NIP46_KIND,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [['p', bunker.pubkey]],
+        content: nip44.encrypt(JSON.stringify({ id, method, params }), conversationKey),
+      },
+      clientSecretKey,
+    );
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new SignerError(`Bunker did not answer "${method}" within ${timeoutMs}ms`));
+      }, timeoutMs);
+      pending.set(id, { resolve, reject, timer });
+      transport.publishSigned(event);
+    });
+  }
+
+  function ensureConnected(): Promise<void> {
+    connecting ??= sendRequest('connect', [bunker.pubkey, bunker.secret ?? '']).then(
+      () => undefined,
+      (err) => {
+        connecting = null; // allow a later retry
+        throw err;
+      },
+    );
+    return connecting;
+  }
+
+  async function request(method: string, params: string[]): Promise<string> {
+    await ensureConnected();
+    return sendRequest(method, params);
+  }
+
+  async function getUserPubkey(): Promise<string> {
+    cachedPubkey ??= await request('get_public_key', []);
+    return cachedPubkey;
+  }
+
+  return {
+    bunker,
+    clientSecretKey,
+    attach(next) {
+      responseSub?.close();
+      transport = next;
+      responseSub = next.subscribe(
+        `nip46-${clientPubkey.slice(0, 8)}`,
+        { kinds: [NIP46_KIND], authors: [bunker.pubkey], '#p': [clientPubkey], since: Math.floor(Date.now() / 1000) - 10 },
+        handleResponse,
+      );
+    },
+    close() {
+      responseSub?.close();
+      responseSub = null;
+      for (const request of pending.values()) {
+        clearTimeout(request.timer);
+        request.reject(new SignerError('NIP-46 signer closed'));
+      }
+      pending.clear();
+    },
+    getPublicKey: getUserPubkey,
+    async signEvent(template) {
+      const signed = JSON.parse(await request('sign_event', [JSON.stringify(template)])) as NostrEvent;
+      if (!verifyEvent(signed)) throw new SignerError('Bunker returned an event with an invalid signature');
+      // A valid signature only proves someone signed it: it must be our key, over what we asked for.
+      if (signed.pubkey !== (await getUserPubkey())) throw new SignerError('Bunker signed the event with a different key');
+      if (
+        signed.kind !== template.kind ||
+        signed.created_at !== template.created_at ||
+        signed.content !== template.content ||
+        JSON.stringify(signed.tags) !== JSON.stringify(template.tags)
+      ) {
+        throw new SignerError('Bunker returned an event that differs from the one it was asked to sign');
+      }
+      return signed;
+    },
+    async nip44Encrypt(peerPubkey, plaintext) {
+      return request('nip44_encrypt', [peerPubkey, plaintext]);
+    },
+    async nip44Decrypt(peerPubkey, ciphertext) {
+      return request('nip44_decrypt', [peerPubkey, ciphertext]);
+    },
+  };
+}
@@ -75,6 +75,12 @@ export interface Store<T> {
   reset(): void;
 }
 
+/**
+ * The read side of a Store: for handing a value to consumers that may
+ * observe it but must not change it.
+ */
+export type ReadableStore<T> = Pick<Store<T>, 'get' | 'subscribe'>;
+
 /**
  * Creates a new generic, strongly typed reactive store.
  *
@@ -158,6 +164,18 @@ export function createStore<T>(initialValue: T): Store<T> {
   return { get, set, update, subscribe, reset };
 }
 
+/**
+ * A read-only view of `store`. The view holds no state of its own: it
+ * always reflects the underlying store, and only whoever kept the
+ * original can change it.
+ */
+export function readonlyStore<T>(store: Store<T>): ReadableStore<T> {
+  return {
+    get: () => store.get(),
+    subscribe: (subscriber) => store.subscribe(subscriber),
+  };
+}
+
 /**
  * Reports an error thrown by a subscriber without letting it propagate
  * into the store's own call stack. Deferred via a microtask/macrotask